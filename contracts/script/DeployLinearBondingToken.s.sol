@@ -3,6 +3,7 @@ pragma solidity ^0.8.25;
 
 import {Script, console} from "forge-std/Script.sol";
 import {LinearBondingToken} from "../src/LinearBondingToken.sol";
+import {BondingCurveToken} from "../src/BondingCurveToken.sol";
 
 /**
  * @title DeployLinearBondingToken
@@ -21,6 +22,8 @@ contract DeployLinearBondingToken is Script {
     string constant TOKEN_SYMBOL = "NAT";
     uint256 constant INITIAL_PRICE = 1e13; // 0.00001 ETH per token initially
     uint256 constant SLOPE = 1e12; // 0.000001 ETH per token slope
+    uint256 constant MAX_SUPPLY = 0; // 0 for an uncapped curve
+    bool constant FREEZE_BURNS_ON_GRADUATION = false;
 
     function run() external {
         uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
@@ -41,7 +44,14 @@ contract DeployLinearBondingToken is Script {
             TOKEN_NAME,
             TOKEN_SYMBOL,
             INITIAL_PRICE,
-            SLOPE
+            SLOPE,
+            // No fees on a standalone token
+            BondingCurveToken.FeeConfig(address(0), 0, address(0), 0),
+            LinearBondingToken.Graduation(
+                MAX_SUPPLY,
+                0,
+                FREEZE_BURNS_ON_GRADUATION
+            )
         );
 
         vm.stopBroadcast();
@@ -66,6 +76,7 @@ contract DeployLinearBondingToken is Script {
             "Initial price mismatch"
         );
         require(token.slope() == SLOPE, "Slope mismatch");
+        require(token.maxSupply() == MAX_SUPPLY, "Max supply mismatch");
 
         console.log("Deployment verification: PASSED");
     }
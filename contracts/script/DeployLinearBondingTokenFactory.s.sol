@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import {Script, console} from "forge-std/Script.sol";
+import {LinearBondingTokenFactory} from "../src/LinearBondingTokenFactory.sol";
+
+/**
+ * @title DeployLinearBondingTokenFactory
+ * @dev Deploy script for LinearBondingTokenFactory on Sepolia
+ *
+ * Usage:
+ * forge script script/DeployLinearBondingTokenFactory.s.sol --rpc-url sepolia --broadcast --verify
+ *
+ * Environment variables (set via CLI, not in .env):
+ * - PRIVATE_KEY: Your private key for deployment
+ * - ETHERSCAN_API_KEY: For contract verification
+ */
+contract DeployLinearBondingTokenFactory is Script {
+    // Protocol fee charged by every token the factory creates; the deployer receives it
+    uint256 constant PROTOCOL_FEE_BPS = 50; // 0.5%
+
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address deployer = vm.addr(deployerPrivateKey);
+
+        console.log("Deploying LinearBondingTokenFactory...");
+        console.log("Deployer address:", deployer);
+        console.log("Deployer balance:", deployer.balance / 1e18, "ETH");
+        console.log("Protocol fee:", PROTOCOL_FEE_BPS, "bps");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        LinearBondingTokenFactory factory = new LinearBondingTokenFactory(
+            deployer,
+            PROTOCOL_FEE_BPS
+        );
+
+        vm.stopBroadcast();
+
+        console.log("LinearBondingTokenFactory deployed at:", address(factory));
+
+        // Verify deployment
+        require(address(factory) != address(0), "Deployment failed");
+        require(factory.tokenCount() == 0, "Factory should start empty");
+        require(factory.feeRecipient() == deployer, "Fee recipient mismatch");
+        require(
+            factory.protocolFeeBps() == PROTOCOL_FEE_BPS,
+            "Protocol fee mismatch"
+        );
+
+        console.log("Deployment verification: PASSED");
+    }
+}
@@ -0,0 +1,481 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {IBondingCurve} from "./IBondingCurve.sol";
+
+/**
+ * @title BondingCurveToken
+ * @author Your Name
+ * @notice An ERC20 token priced by a bonding curve; concrete tokens only supply the curve itself
+ * @dev Subclasses implement _priceAt (the spot price p(s)) and _reserveAt (the area under the curve
+ *      from 0 to s). Minting s -> s + n costs _reserveAt(s + n) - _reserveAt(s) and burning refunds
+ *      the same difference, so the contract always holds exactly _reserveAt(totalSupply()) - _reserveAt(0)
+ *      and every refund is covered, however the trades are sliced.
+ *      Protocol and creator fees are charged in basis points on top of mint costs and out of burn refunds,
+ *      and go straight to their recipients, so they never touch the curve's reserve.
+ */
+abstract contract BondingCurveToken is ERC20, ReentrancyGuard, IBondingCurve {
+    /// @notice Fee settings, fixed at deployment
+    struct FeeConfig {
+        address feeRecipient; // receives the protocol fee
+        uint256 protocolFeeBps;
+        address creator; // receives the creator fee
+        uint256 creatorFeeBps;
+    }
+
+    /// @notice Upper bound on protocolFeeBps + creatorFeeBps (10%)
+    uint256 public constant MAX_FEE_BPS = 1000;
+
+    uint256 private constant BPS = 10_000;
+
+    /// @notice Receives the protocol fee
+    address public immutable feeRecipient;
+
+    /// @notice Protocol fee in basis points of each mint cost and burn refund
+    uint256 public immutable protocolFeeBps;
+
+    /// @notice Receives the creator fee
+    address public immutable creator;
+
+    /// @notice Creator fee in basis points of each mint cost and burn refund
+    uint256 public immutable creatorFeeBps;
+
+    /// @notice Fees each recipient has earned and not yet withdrawn
+    mapping(address => uint256) public pendingFees;
+
+    /// @notice Sum of pendingFees; held by the contract but not part of the curve's reserve
+    uint256 public totalPendingFees;
+
+    /// @notice Emitted when a mint or burn pays fees
+    /// @param trader The account that minted or burned
+    /// @param protocolFee Wei sent to feeRecipient
+    /// @param creatorFee Wei sent to creator
+    event FeesCollected(
+        address indexed trader,
+        uint256 protocolFee,
+        uint256 creatorFee
+    );
+
+    /// @notice Emitted when a fee recipient withdraws what it has earned
+    /// @param recipient The feeRecipient or creator
+    /// @param amount Wei sent to recipient
+    event FeesWithdrawn(address indexed recipient, uint256 amount);
+
+    /// @notice Reverts once the block timestamp is past `deadline`
+    modifier beforeDeadline(uint256 deadline) {
+        require(block.timestamp <= deadline, "Transaction expired");
+        _;
+    }
+
+    /**
+     * @param _name The name of the token
+     * @param _symbol The symbol of the token
+     * @param _fees Fee rates and recipients; the rates together may not exceed MAX_FEE_BPS
+     * @dev Fees are credited to their recipients on every trade and pulled with withdrawFees
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        FeeConfig memory _fees
+    ) ERC20(_name, _symbol) {
+        require(
+            _fees.protocolFeeBps + _fees.creatorFeeBps <= MAX_FEE_BPS,
+            "Fees too high"
+        );
+        require(
+            _fees.protocolFeeBps == 0 || _fees.feeRecipient != address(0),
+            "Fee recipient required"
+        );
+        require(
+            _fees.creatorFeeBps == 0 || _fees.creator != address(0),
+            "Creator required"
+        );
+        feeRecipient = _fees.feeRecipient;
+        protocolFeeBps = _fees.protocolFeeBps;
+        creator = _fees.creator;
+        creatorFeeBps = _fees.creatorFeeBps;
+    }
+
+    /**
+     * @notice Returns the number of decimals for the token
+     * @return The number of decimals (always 18 for this token)
+     */
+    function decimals() public pure override returns (uint8) {
+        return 18;
+    }
+
+    /**
+     * @notice Gets the current price to buy one token
+     * @return The current price in wei to buy one token
+     */
+    function getCurrentPrice() public view returns (uint256) {
+        return _priceAt(totalSupply());
+    }
+
+    /**
+     * @notice Calculates the cost in ETH to mint a specific amount of tokens, before fees
+     * @dev The area under the curve over [supply, supply + amount]
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @return The cost in wei to mint the specified amount of tokens
+     */
+    function calculateCost(
+        uint256 amount
+    ) public view virtual returns (uint256) {
+        require(amount > 0, "amount=0");
+        uint256 s = totalSupply();
+        return _reserveBetween(s, s + amount);
+    }
+
+    /**
+     * @notice Calculates the ETH refund for burning a specific amount of tokens, before fees
+     * @dev The area under the curve over [supply - amount, supply]
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @return The ETH refund in wei for burning the specified amount of tokens
+     */
+    function calculateRefund(
+        uint256 amount
+    ) public view virtual returns (uint256) {
+        uint256 s = totalSupply();
+        if (amount == 0) return 0;
+        require(amount <= s, "Cannot burn more tokens than the current supply");
+        return _reserveBetween(s - amount, s);
+    }
+
+    /**
+     * @notice What minting a specific amount of tokens costs, fees included
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @return total The ETH to send: curve cost plus both fees
+     * @return protocolFee The protocol fee in wei
+     * @return creatorFee The creator fee in wei
+     */
+    function quoteMint(
+        uint256 amount
+    )
+        public
+        view
+        returns (uint256 total, uint256 protocolFee, uint256 creatorFee)
+    {
+        uint256 cost = calculateCost(amount);
+        (protocolFee, creatorFee) = _feesOn(cost);
+        total = cost + protocolFee + creatorFee;
+    }
+
+    /**
+     * @notice What burning a specific amount of tokens pays out, after fees
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @return net The ETH the seller receives: curve refund minus both fees
+     * @return protocolFee The protocol fee in wei
+     * @return creatorFee The creator fee in wei
+     */
+    function quoteBurn(
+        uint256 amount
+    )
+        public
+        view
+        returns (uint256 net, uint256 protocolFee, uint256 creatorFee)
+    {
+        uint256 refund = calculateRefund(amount);
+        (protocolFee, creatorFee) = _feesOn(refund);
+        net = refund - protocolFee - creatorFee;
+    }
+
+    /**
+     * @notice Calculates how many tokens can be purchased with a given amount of ETH, fees included
+     * @dev Sets aside the fees first, then spends the rest on the curve via _tokensForCost
+     * @param ethAmount The amount of ETH to spend (in wei)
+     * @return The number of tokens that can be purchased (in wei, 18 decimals)
+     */
+    function calculateTokensForEth(
+        uint256 ethAmount
+    ) public view returns (uint256) {
+        require(ethAmount > 0, "Must send more than 0 ETH");
+        return
+            _tokensForCost(
+                Math.mulDiv(
+                    ethAmount,
+                    BPS,
+                    BPS + protocolFeeBps + creatorFeeBps
+                )
+            );
+    }
+
+    /**
+     * @notice Mints tokens by sending ETH to the contract
+     * @dev Implements slippage protection to prevent sandwich attacks
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     * @dev The function calculates the exact cost and refunds any excess ETH
+     * @dev Protected by ReentrancyGuard to prevent reentrancy attacks
+     */
+    function mintTokens(
+        uint256 amount,
+        uint256 minTokenOut
+    ) public payable nonReentrant {
+        _mintTokens(amount, minTokenOut);
+    }
+
+    /**
+     * @notice Mints tokens like mintTokens, but reverts once `deadline` has passed
+     * @dev Stops a transaction that sat in the mempool from filling at a price the trader never saw
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     * @param deadline The last block timestamp at which the mint may execute
+     */
+    function mintTokensWithDeadline(
+        uint256 amount,
+        uint256 minTokenOut,
+        uint256 deadline
+    ) external payable nonReentrant beforeDeadline(deadline) {
+        _mintTokens(amount, minTokenOut);
+    }
+
+    /**
+     * @dev Mint logic shared by mintTokens and mintTokensWithDeadline; callers hold the reentrancy lock
+     */
+    function _mintTokens(uint256 amount, uint256 minTokenOut) private {
+        require(amount > 0, "Cannot mint zero tokens");
+
+        // Calculate the exact cost for the requested tokens, fees on top
+        (uint256 total, uint256 protocolFee, uint256 creatorFee) = quoteMint(
+            amount
+        );
+        require(msg.value >= total, "Insufficient ETH sent");
+        require(amount >= minTokenOut, "Slippage: fewer tokens than expected");
+
+        // Mint tokens to the sender
+        _mint(msg.sender, amount);
+        _payFees(protocolFee, creatorFee);
+
+        // Refund any excess ETH sent
+        if (msg.value > total) {
+            uint256 refund = msg.value - total;
+            // Use call to send ETH and check for success
+            (bool ok, ) = payable(msg.sender).call{value: refund}("");
+            require(ok, "Refund failed");
+        }
+
+        _afterMint();
+    }
+
+    /**
+     * @notice Mints as many tokens as `msg.value` buys, fees included, and refunds the remainder
+     * @dev The token amount is worked out on-chain with calculateTokensForEth, so the caller only has to
+     *      send the ETH they want to spend. On a capped curve the buy stops at the supply left to mint.
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     */
+    function buyWithEth(uint256 minTokenOut) external payable nonReentrant {
+        _mintTokens(_tokensForValue(), minTokenOut);
+    }
+
+    /**
+     * @notice Buys like buyWithEth, but reverts once `deadline` has passed
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     * @param deadline The last block timestamp at which the buy may execute
+     */
+    function buyWithEthWithDeadline(
+        uint256 minTokenOut,
+        uint256 deadline
+    ) external payable nonReentrant beforeDeadline(deadline) {
+        _mintTokens(_tokensForValue(), minTokenOut);
+    }
+
+    /**
+     * @notice Burns tokens and refunds ETH to the sender
+     * @dev Calculates the refund amount before burning tokens to ensure accurate payment
+     * @dev Implements slippage protection so a burn front-run by other sells reverts instead of paying less
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @param minEthOut The minimum ETH refund expected in wei (slippage protection)
+     * @dev Protected by ReentrancyGuard to prevent reentrancy attacks
+     * @dev Allows burning 0 tokens as a no-op for compatibility
+     */
+    function burnTokens(
+        uint256 amount,
+        uint256 minEthOut
+    ) public nonReentrant {
+        _burnTokens(amount, minEthOut);
+    }
+
+    /**
+     * @notice Burns tokens like burnTokens, but reverts once `deadline` has passed
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @param minEthOut The minimum ETH refund expected in wei (slippage protection)
+     * @param deadline The last block timestamp at which the burn may execute
+     */
+    function burnTokensWithDeadline(
+        uint256 amount,
+        uint256 minEthOut,
+        uint256 deadline
+    ) external nonReentrant beforeDeadline(deadline) {
+        _burnTokens(amount, minEthOut);
+    }
+
+    /**
+     * @notice Sends the caller every fee credited to it
+     * @dev Fees are pulled rather than pushed on each trade, so a recipient that rejects ETH only
+     *      blocks its own withdrawal, never mints or burns
+     */
+    function withdrawFees() external nonReentrant {
+        uint256 amount = pendingFees[msg.sender];
+        require(amount > 0, "No fees to withdraw");
+
+        pendingFees[msg.sender] = 0;
+        totalPendingFees -= amount;
+        emit FeesWithdrawn(msg.sender, amount);
+
+        (bool ok, ) = payable(msg.sender).call{value: amount}("");
+        require(ok, "Fee withdrawal failed");
+    }
+
+    /**
+     * @dev Burn logic shared by burnTokens and burnTokensWithDeadline; callers hold the reentrancy lock
+     */
+    function _burnTokens(uint256 amount, uint256 minEthOut) private {
+        // Allow burning 0 tokens (no-op) to match original behavior
+        if (amount == 0) {
+            return;
+        }
+        require(
+            balanceOf(msg.sender) >= amount,
+            "Insufficient balance to burn"
+        );
+
+        // Compute refund BEFORE burning to ensure accurate calculation; fees come out of it
+        (uint256 refund, uint256 protocolFee, uint256 creatorFee) = quoteBurn(
+            amount
+        );
+        require(refund >= minEthOut, "Slippage: less ETH than expected");
+        require(
+            _reserve() >= refund + protocolFee + creatorFee,
+            "Contract has insufficient ETH for refund"
+        );
+
+        // Burn tokens from the sender
+        _burn(msg.sender, amount);
+        _payFees(protocolFee, creatorFee);
+
+        // Send ETH refund to the sender
+        // Use call to send ETH and check for success
+        (bool ok, ) = payable(msg.sender).call{value: refund}("");
+        require(ok, "Refund transfer failed");
+    }
+
+    /**
+     * @dev Tokens that `msg.value` buys, held to what may still be minted
+     */
+    function _tokensForValue() private view returns (uint256) {
+        uint256 amount = calculateTokensForEth(msg.value);
+        uint256 mintable = _mintableSupply();
+        require(mintable > 0, "Nothing left to mint");
+        return amount < mintable ? amount : mintable;
+    }
+
+    /**
+     * @notice Runs once a mint has settled: fees credited and any excess ETH refunded
+     * @dev No-op by default
+     */
+    function _afterMint() internal virtual {}
+
+    /**
+     * @notice How many more tokens may be minted
+     * @dev Unlimited by default; capped curves override this so buyWithEth stops at the cap instead of reverting
+     * @return The number of tokens (in wei, 18 decimals)
+     */
+    function _mintableSupply() internal view virtual returns (uint256) {
+        return type(uint256).max;
+    }
+
+    /**
+     * @notice Largest token amount whose calculateCost fits in `ethAmount`
+     * @dev Binary search over calculateCost, which is what quoteMint charges, so buyWithEth never sizes a mint
+     *      the ETH can't pay for. Prices never fall as supply grows, so the spot price bounds the search from above.
+     * @param ethAmount The ETH available for the curve cost, fees already set aside (in wei)
+     * @return The number of tokens (in wei, 18 decimals)
+     */
+    function _tokensForCost(
+        uint256 ethAmount
+    ) internal view virtual returns (uint256) {
+        uint256 s = totalSupply();
+        uint256 spot = _priceAt(s);
+
+        uint256 high;
+        if (spot > 0) {
+            high = (ethAmount * 1e18) / spot + 1;
+        } else {
+            // Free at the current supply: double until the cost overshoots
+            high = 1e18;
+            while (calculateCost(high) <= ethAmount) high *= 2;
+        }
+
+        // Invariant: cost(low) <= ethAmount < cost(high + 1)
+        uint256 low = 0;
+        while (low < high) {
+            uint256 mid = (low + high + 1) / 2;
+            if (calculateCost(mid) <= ethAmount) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        require(low > 0, "Not enough ETH to buy tokens");
+        return low;
+    }
+
+    /**
+     * @notice Spot price at a given supply
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The price in wei per token
+     */
+    function _priceAt(uint256 supply) internal view virtual returns (uint256);
+
+    /**
+     * @notice Area under the price curve from 0 to `supply`, i.e. the ETH the curve holds at that supply
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The reserve in wei
+     */
+    function _reserveAt(uint256 supply) internal view virtual returns (uint256);
+
+    /// @dev Both fees on a curve amount, rounded down
+    function _feesOn(
+        uint256 amount
+    ) internal view returns (uint256 protocolFee, uint256 creatorFee) {
+        protocolFee = (amount * protocolFeeBps) / BPS;
+        creatorFee = (amount * creatorFeeBps) / BPS;
+    }
+
+    /// @dev Credits the fees for the current trade to their recipients
+    function _payFees(uint256 protocolFee, uint256 creatorFee) private {
+        // Credited rather than sent, so a recipient that can't take ETH can't block trading
+        if (protocolFee > 0) pendingFees[feeRecipient] += protocolFee;
+        if (creatorFee > 0) pendingFees[creator] += creatorFee;
+        if (protocolFee + creatorFee > 0) {
+            totalPendingFees += protocolFee + creatorFee;
+            emit FeesCollected(msg.sender, protocolFee, creatorFee);
+        }
+    }
+
+    /**
+     * @notice ETH backing the curve: the contract's balance less fees owed to their recipients
+     * @return The reserve in wei
+     */
+    function _reserve() internal view returns (uint256) {
+        return address(this).balance - totalPendingFees;
+    }
+
+    /**
+     * @notice Area under the curve between two supplies
+     * @dev Fixed-point exp/ln results can wobble by a wei, so a tiny negative difference reads as 0
+     */
+    function _reserveBetween(
+        uint256 from,
+        uint256 to
+    ) internal view returns (uint256) {
+        uint256 low = _reserveAt(from);
+        uint256 high = _reserveAt(to);
+        return high > low ? high - low : 0;
+    }
+}
@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+import {UD60x18, ud, UNIT} from "@prb/math/UD60x18.sol";
+import {BondingCurveToken} from "./BondingCurveToken.sol";
+
+/**
+ * @title ExponentialBondingToken
+ * @author Your Name
+ * @notice An ERC20 token whose price grows by a fixed percentage per token minted
+ * @dev Price formula: p(s) = initialPrice * e^(growthRate * s), with growthRate a UD60x18 rate per whole token.
+ *      Reserve: R(s) = initialPrice * (e^(growthRate * s) - 1) / growthRate.
+ *      PRBMath's exp tops out at an exponent of ~133, which caps the supply at 133 / growthRate tokens.
+ */
+contract ExponentialBondingToken is BondingCurveToken {
+    /// @notice The initial price of the token in wei (price when supply is 0)
+    uint256 public initialPrice;
+
+    /// @notice Continuous growth rate per token, 18 decimals (1e16 = the price grows ~1% per token)
+    uint256 public growthRate;
+
+    /**
+     * @notice Constructor for the ExponentialBondingToken
+     * @param _name The name of the token
+     * @param _symbol The symbol of the token
+     * @param _initialPrice The initial price in wei (becomes the floor price)
+     * @param _growthRate The growth rate per token, 18 decimals
+     * @param _fees Fee rates and recipients (see BondingCurveToken)
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _initialPrice,
+        uint256 _growthRate,
+        FeeConfig memory _fees
+    ) BondingCurveToken(_name, _symbol, _fees) {
+        require(_initialPrice > 0, "Initial price required");
+        require(_growthRate > 0, "Growth rate required");
+        initialPrice = _initialPrice;
+        growthRate = _growthRate;
+    }
+
+    /**
+     * @notice The shape of this token's price curve
+     * @return Always CurveType.Exponential
+     */
+    function curveType() external pure returns (CurveType) {
+        return CurveType.Exponential;
+    }
+
+    /**
+     * @notice The curve parameters
+     * @return params [initialPrice, growthRate]
+     */
+    function curveParameters()
+        external
+        view
+        returns (uint256[] memory params)
+    {
+        params = new uint256[](2);
+        params[0] = initialPrice;
+        params[1] = growthRate;
+    }
+
+    /**
+     * @notice Price at a specific supply: initialPrice * e^(growthRate * supply)
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The price in wei at the given supply
+     */
+    function _priceAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        return ud(initialPrice).mul(_growth(supply)).unwrap();
+    }
+
+    /**
+     * @notice Area under the curve from 0 to `supply`: initialPrice * (e^(growthRate * supply) - 1) / growthRate
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The reserve in wei at the given supply
+     */
+    function _reserveAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        return
+            ud(initialPrice)
+                .mul(_growth(supply).sub(UNIT))
+                .div(ud(growthRate))
+                .unwrap();
+    }
+
+    /// @dev e^(growthRate * supply), reverting once the exponent leaves PRBMath's range
+    function _growth(uint256 supply) private view returns (UD60x18) {
+        return ud(growthRate).mul(ud(supply)).exp();
+    }
+}
@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+/**
+ * @title IBondingCurve
+ * @author Your Name
+ * @notice Common surface of every bonding curve token, whatever the shape of its price curve
+ * @dev Frontends read curveType() and curveParameters() to reproduce the curve off-chain
+ */
+interface IBondingCurve {
+    /// @notice The supported price curve shapes
+    enum CurveType {
+        Linear,
+        Exponential,
+        Polynomial,
+        Sigmoid
+    }
+
+    /**
+     * @notice The shape of this token's price curve
+     * @return The curve type
+     */
+    function curveType() external view returns (CurveType);
+
+    /**
+     * @notice The constructor parameters of the curve, in a fixed order per curve type
+     * @dev Linear: [initialPrice, slope]
+     *      Exponential: [initialPrice, growthRate]
+     *      Polynomial: [initialPrice, coefficient, exponent]
+     *      Sigmoid: [initialPrice, maxPrice, steepness, midpoint]
+     * @return The curve parameters
+     */
+    function curveParameters() external view returns (uint256[] memory);
+
+    /**
+     * @notice Gets the current price to buy one token
+     * @return The current price in wei to buy one token
+     */
+    function getCurrentPrice() external view returns (uint256);
+
+    /**
+     * @notice Calculates the cost in ETH to mint a specific amount of tokens, before fees
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @return The cost in wei
+     */
+    function calculateCost(uint256 amount) external view returns (uint256);
+
+    /**
+     * @notice Calculates the ETH refund for burning a specific amount of tokens, before fees
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @return The refund in wei
+     */
+    function calculateRefund(uint256 amount) external view returns (uint256);
+
+    /**
+     * @notice What minting a specific amount of tokens costs, fees included
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @return total The ETH to send
+     * @return protocolFee The protocol fee in wei
+     * @return creatorFee The creator fee in wei
+     */
+    function quoteMint(
+        uint256 amount
+    )
+        external
+        view
+        returns (uint256 total, uint256 protocolFee, uint256 creatorFee);
+
+    /**
+     * @notice What burning a specific amount of tokens pays out, after fees
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @return net The ETH the seller receives
+     * @return protocolFee The protocol fee in wei
+     * @return creatorFee The creator fee in wei
+     */
+    function quoteBurn(
+        uint256 amount
+    )
+        external
+        view
+        returns (uint256 net, uint256 protocolFee, uint256 creatorFee);
+
+    /**
+     * @notice Calculates how many tokens can be purchased with a given amount of ETH, fees included
+     * @param ethAmount The amount of ETH to spend (in wei)
+     * @return The number of tokens that can be purchased (in wei, 18 decimals)
+     */
+    function calculateTokensForEth(
+        uint256 ethAmount
+    ) external view returns (uint256);
+
+    /**
+     * @notice Mints tokens by sending ETH to the contract
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     */
+    function mintTokens(uint256 amount, uint256 minTokenOut) external payable;
+
+    /**
+     * @notice Mints as many tokens as the ETH sent buys, fees included, and refunds the remainder
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     */
+    function buyWithEth(uint256 minTokenOut) external payable;
+
+    /**
+     * @notice Burns tokens and refunds ETH to the sender
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @param minEthOut The minimum ETH refund expected in wei (slippage protection)
+     */
+    function burnTokens(uint256 amount, uint256 minEthOut) external;
+
+    /**
+     * @notice Sends the caller the protocol or creator fees credited to it
+     */
+    function withdrawFees() external;
+
+    /**
+     * @notice Mints tokens like mintTokens, reverting once the block timestamp is past `deadline`
+     * @param amount The number of tokens to mint (in wei, 18 decimals)
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     * @param deadline The last block timestamp at which the mint may execute
+     */
+    function mintTokensWithDeadline(
+        uint256 amount,
+        uint256 minTokenOut,
+        uint256 deadline
+    ) external payable;
+
+    /**
+     * @notice Burns tokens like burnTokens, reverting once the block timestamp is past `deadline`
+     * @param amount The number of tokens to burn (in wei, 18 decimals)
+     * @param minEthOut The minimum ETH refund expected in wei (slippage protection)
+     * @param deadline The last block timestamp at which the burn may execute
+     */
+    function burnTokensWithDeadline(
+        uint256 amount,
+        uint256 minEthOut,
+        uint256 deadline
+    ) external;
+
+    /**
+     * @notice Buys like buyWithEth, reverting once the block timestamp is past `deadline`
+     * @param minTokenOut The minimum number of tokens expected (slippage protection)
+     * @param deadline The last block timestamp at which the buy may execute
+     */
+    function buyWithEthWithDeadline(
+        uint256 minTokenOut,
+        uint256 deadline
+    ) external payable;
+}
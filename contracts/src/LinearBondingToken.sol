@@ -2,10 +2,8 @@
 
 pragma solidity ^0.8.27;
 
-import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
-import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import {console2} from "forge-std/console2.sol";
+import {BondingCurveToken} from "./BondingCurveToken.sol";
 
 /**
  * @title LinearBondingToken
@@ -13,9 +11,20 @@ import {console2} from "forge-std/console2.sol";
  * @notice An ERC20 token with a linear bonding curve pricing mechanism
  * @dev This contract implements a bonding curve where the price increases linearly with supply
  *      Price formula: p(s) = initialPrice + (slope * supply) / 1e18
- *      The contract allows users to mint tokens by sending ETH and burn tokens to receive ETH refunds
+ *      The contract allows users to mint tokens by sending ETH and burn tokens to receive ETH refunds.
+ *      Costs and refunds use the trapezoid rule over truncated prices rather than BondingCurveToken's
+ *      reserve differences, and the token amount for a given ETH cost is solved in closed form.
+ *      An optional cap stops minting once the supply (or the ETH the curve holds) reaches it: the curve
+ *      "graduates", and from then on burns keep working or are frozen, as chosen at deployment.
  */
-contract LinearBondingToken is ERC20, ReentrancyGuard {
+contract LinearBondingToken is BondingCurveToken {
+    /// @notice Optional cap, fixed at deployment. Set at most one of maxSupply and reserveTarget.
+    struct Graduation {
+        uint256 maxSupply; // 0 for no supply cap
+        uint256 reserveTarget; // 0 for no reserve target
+        bool freezeBurns; // stop burns once the curve graduates
+    }
+
     /// @notice The initial price of the token in wei (price when supply is 0)
     uint256 public initialPrice;
 
@@ -23,44 +32,87 @@ contract LinearBondingToken is ERC20, ReentrancyGuard {
     /// @dev This determines how much the price increases per token minted
     uint256 public slope;
 
+    /// @notice Supply at which minting stops and the curve graduates; 0 when uncapped
+    /// @dev A reserve target is converted to the smallest supply whose mint cost from zero reaches it
+    uint256 public immutable maxSupply;
+
+    /// @notice The reserve target this token was deployed with, in wei; 0 when capped by supply or uncapped
+    uint256 public immutable reserveTarget;
+
+    /// @notice Whether burns stop once the curve graduates
+    bool public immutable freezeBurnsOnGraduation;
+
+    /// @notice Set once the supply reaches maxSupply; minting is closed for good from then on
+    bool public graduated;
+
+    /// @notice Emitted when the mint that reaches maxSupply graduates the curve
+    /// @param supply The final supply
+    /// @param reserve The ETH the curve holds once the graduating mint has settled, fees owed left out, in wei
+    event Graduated(uint256 supply, uint256 reserve);
+
     /**
      * @notice Constructor for the LinearBondingToken
      * @param _name The name of the token
      * @param _symbol The symbol of the token
      * @param _initialPrice The initial price in wei (becomes the floor price)
      * @param _slope The slope of the bonding curve in wei per token
+     * @param _fees Fee rates and recipients (see BondingCurveToken)
+     * @param _graduation Optional supply cap or reserve target; all zero for an uncapped curve
      */
     constructor(
         string memory _name,
         string memory _symbol,
         uint256 _initialPrice,
-        uint256 _slope
-    ) ERC20(_name, _symbol) {
+        uint256 _slope,
+        FeeConfig memory _fees,
+        Graduation memory _graduation
+    ) BondingCurveToken(_name, _symbol, _fees) {
+        require(
+            _graduation.maxSupply == 0 || _graduation.reserveTarget == 0,
+            "Set a max supply or a reserve target, not both"
+        );
         initialPrice = _initialPrice; // Becomes the floor
         slope = _slope;
+
+        if (_graduation.reserveTarget > 0) {
+            require(_initialPrice > 0 || _slope > 0, "Curve is free");
+            maxSupply = _supplyForReserve(_graduation.reserveTarget);
+        } else {
+            maxSupply = _graduation.maxSupply;
+        }
+        reserveTarget = _graduation.reserveTarget;
+        freezeBurnsOnGraduation = _graduation.freezeBurns;
     }
 
     /**
-     * @notice Returns the number of decimals for the token
-     * @return The number of decimals (always 18 for this token)
+     * @notice The shape of this token's price curve
+     * @return Always CurveType.Linear
      */
-    function decimals() public pure override returns (uint8) {
-        return 18;
+    function curveType() external pure returns (CurveType) {
+        return CurveType.Linear;
     }
 
     /**
-     * @notice Gets the current price to buy one token
-     * @dev Calculates the price using the linear bonding curve formula: p(s) = initialPrice + (slope * supply) / 1e18
-     * @return The current price in wei to buy one token
+     * @notice The curve parameters
+     * @return params [initialPrice, slope]
      */
-    function getCurrentPrice() public view returns (uint256) {
-        uint256 a = slope; // In wei per token^2
-        uint256 s = totalSupply(); // In wei (18 decimals)
-        uint256 b = initialPrice; // In wei per token
-
-        // Calculate price using linear bonding curve: p(s) = b + (a * s) / 1e18
-        uint256 price = (a * s) / 1e18 + b;
-        return price;
+    function curveParameters()
+        external
+        view
+        returns (uint256[] memory params)
+    {
+        params = new uint256[](2);
+        params[0] = initialPrice;
+        params[1] = slope;
+    }
+
+    /**
+     * @notice How many more tokens can be minted before the curve graduates
+     * @return The remaining supply (in wei, 18 decimals); type(uint256).max when uncapped
+     */
+    function remainingSupply() public view returns (uint256) {
+        if (maxSupply == 0) return type(uint256).max;
+        return graduated ? 0 : maxSupply - totalSupply();
     }
 
     /**
@@ -70,7 +122,9 @@ contract LinearBondingToken is ERC20, ReentrancyGuard {
      * @param amount The number of tokens to mint (in wei, 18 decimals)
      * @return The cost in wei to mint the specified amount of tokens
      */
-    function calculateCost(uint256 amount) public view returns (uint256) {
+    function calculateCost(
+        uint256 amount
+    ) public view override returns (uint256) {
         require(amount > 0, "amount=0");
         uint256 s = totalSupply();
         uint256 pStart = _priceAt(s);
@@ -84,95 +138,38 @@ contract LinearBondingToken is ERC20, ReentrancyGuard {
     }
 
     /**
-     * @notice Mints tokens by sending ETH to the contract
-     * @dev Implements slippage protection to prevent sandwich attacks
-     * @param amount The number of tokens to mint (in wei, 18 decimals)
-     * @param minTokenOut The minimum number of tokens expected (slippage protection)
-     * @dev The function calculates the exact cost and refunds any excess ETH
-     * @dev Protected by ReentrancyGuard to prevent reentrancy attacks
+     * @notice Internal helper function to calculate price at a specific supply
+     * @dev Implements the linear bonding curve formula: p(s) = initialPrice + (slope * supply) / 1e18
+     * @param supply The token supply at which to calculate the price (in wei, 18 decimals)
+     * @return The price in wei at the given supply
      */
-    function mintTokens(
-        uint256 amount,
-        uint256 minTokenOut
-    ) public payable nonReentrant {
-        require(amount > 0, "Cannot mint zero tokens");
-
-        // Calculate the exact cost for the requested tokens
-        uint256 cost = calculateCost(amount);
-        require(msg.value >= cost, "Insufficient ETH sent");
-        require(amount >= minTokenOut, "Slippage: fewer tokens than expected");
-
-        // Mint tokens to the sender
-        _mint(msg.sender, amount);
-
-        // Refund any excess ETH sent
-        if (msg.value > cost) {
-            uint256 refund = msg.value - cost;
-            // Use call to send ETH and check for success
-            (bool ok, ) = payable(msg.sender).call{value: refund}("");
-            require(ok, "Refund failed");
-        }
+    function _priceAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        // Linear bonding curve formula: p(s) = b + (a * s) / 1e18
+        return initialPrice + (slope * supply) / 1e18;
     }
 
     /**
-     * @notice Calculates how many tokens can be purchased with a given amount of ETH
-     * @dev Uses the quadratic formula to solve for token amount given ETH input
-     *      Solves: ETH = (pStart + pEnd) * amount / 2 where pStart and pEnd are prices
-     *      This results in a quadratic equation: A*amount² + B*amount - ETH = 0
-     * @param ethAmount The amount of ETH to spend (in wei)
-     * @return The number of tokens that can be purchased (in wei, 18 decimals)
+     * @notice Area under the linear curve from 0 to `supply`
+     * @dev initialPrice * s / 1e18 + slope * s^2 / 2e36
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The reserve in wei at the given supply
      */
-    function calculateTokensForEth(
-        uint256 ethAmount
-    ) public view returns (uint256) {
-        require(ethAmount > 0, "Must send more than 0 ETH");
-
-        uint256 s = totalSupply(); // Current supply of tokens
-        uint256 a = slope; // Slope of the bonding curve
-        uint256 b = initialPrice; // Initial price
-        uint256 c = ethAmount; // ETH sent by the user
-
-        // Quadratic formula components for solving: A*amount² + B*amount - C = 0
-        uint256 A = (a / 2); // Adjust slope for the quadratic term (in wei)
-        uint256 B = ((a * s) / 1e18) + b; // Linear term, adjusted for decimals
-        uint256 C = c; // Constant term, which is the ETH provided
-
-        // Ensure slope is non-zero to avoid division by zero
-        require(A > 0, "Slope too small");
-
-        // Calculate the discriminant: D = B² + 4AC
-        uint256 discriminant = (B * B) + (4 * A * C);
-        require(discriminant >= 0, "Discriminant is negative");
-
-        // Calculate the square root of the discriminant using Math.sqrt
-        uint256 sqrtDiscriminant = Math.sqrt(discriminant);
-
-        // Calculate the numerator: sqrt(D) - B
-        uint256 numerator = sqrtDiscriminant - B;
-
-        // Calculate the denominator: 2 * A
-        uint256 denominator = 2 * A;
-
-        // Ensure denominator is non-zero
-        require(denominator > 0, "Denominator is zero");
-
-        // Calculate the amount of tokens that can be purchased
-        // Multiply by 1e18 to maintain proper decimal precision
-        uint256 amount = (numerator * 1e18) / denominator;
-        require(amount > 0, "Not enough ETH to buy tokens");
-
-        return amount;
+    function _reserveAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        return
+            Math.mulDiv(initialPrice, supply, 1e18) +
+            Math.mulDiv(slope * supply, supply, 2 * 1e36);
     }
 
     /**
-     * @notice Internal helper function to calculate price at a specific supply
-     * @dev Implements the linear bonding curve formula: p(s) = initialPrice + (slope * supply) / 1e18
-     * @param supply The token supply at which to calculate the price (in wei, 18 decimals)
-     * @return The price in wei at the given supply
+     * @notice Stops buyWithEth at the cap
+     * @return The remaining supply (in wei, 18 decimals)
      */
-    function _priceAt(uint256 supply) internal view returns (uint256) {
-        // Linear bonding curve formula: p(s) = b + (a * s) / 1e18
-        return initialPrice + (slope * supply) / 1e18;
+    function _mintableSupply() internal view override returns (uint256) {
+        return remainingSupply();
     }
 
     /**
@@ -182,7 +179,9 @@ contract LinearBondingToken is ERC20, ReentrancyGuard {
      * @param amount The number of tokens to burn (in wei, 18 decimals)
      * @return The ETH refund in wei for burning the specified amount of tokens
      */
-    function calculateRefund(uint256 amount) public view returns (uint256) {
+    function calculateRefund(
+        uint256 amount
+    ) public view override returns (uint256) {
         uint256 s = totalSupply(); // current supply (18 decimals)
 
         // For amount = 0, return 0 (do not revert) to match original behavior
@@ -209,35 +208,65 @@ contract LinearBondingToken is ERC20, ReentrancyGuard {
     }
 
     /**
-     * @notice Burns tokens and refunds ETH to the sender
-     * @dev Calculates the refund amount before burning tokens to ensure accurate payment
-     * @param amount The number of tokens to burn (in wei, 18 decimals)
-     * @dev Protected by ReentrancyGuard to prevent reentrancy attacks
-     * @dev Allows burning 0 tokens as a no-op for compatibility
+     * @notice Enforces the cap on every mint and the burn freeze after graduation
+     * @dev The mint that lands exactly on maxSupply graduates the curve
      */
-    function burnTokens(uint256 amount) public nonReentrant {
-        // Allow burning 0 tokens (no-op) to match original behavior
-        if (amount == 0) {
-            return;
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        if (from == address(0)) {
+            require(!graduated, "Curve has graduated");
+            require(
+                maxSupply == 0 || totalSupply() + value <= maxSupply,
+                "Exceeds max supply"
+            );
+        } else if (to == address(0)) {
+            require(
+                !(graduated && freezeBurnsOnGraduation),
+                "Burns are frozen after graduation"
+            );
         }
-        require(
-            balanceOf(msg.sender) >= amount,
-            "Insufficient balance to burn"
-        );
 
-        // Compute refund BEFORE burning to ensure accurate calculation
-        uint256 refund = calculateRefund(amount);
-        require(
-            address(this).balance >= refund,
-            "Contract has insufficient ETH for refund"
-        );
+        super._update(from, to, value);
 
-        // Burn tokens from the sender
-        _burn(msg.sender, amount);
+        if (from == address(0) && maxSupply > 0 && totalSupply() == maxSupply) {
+            graduated = true;
+        }
+    }
 
-        // Send ETH refund to the sender
-        // Use call to send ETH and check for success
-        (bool ok, ) = payable(msg.sender).call{value: refund}("");
-        require(ok, "Refund transfer failed");
+    /**
+     * @notice Announces graduation once the mint that reached maxSupply has settled
+     * @dev Minting reverts after graduation, so `graduated` here means this mint graduated the curve.
+     *      The reserve is the actual balance backing the curve (rounded-up mint costs included),
+     *      which can be a few wei above _reserveAt(maxSupply).
+     */
+    function _afterMint() internal override {
+        if (graduated) emit Graduated(maxSupply, _reserve());
+    }
+
+    /**
+     * @notice Smallest supply whose mint cost from zero reaches `target`
+     * @dev Only called from the constructor, while the supply is still zero
+     * @param target The reserve target in wei
+     * @return The supply (in wei, 18 decimals)
+     */
+    function _supplyForReserve(uint256 target) private view returns (uint256) {
+        // Double until the cost reaches the target, then binary search below that
+        uint256 high = 1e18;
+        while (calculateCost(high) < target) high *= 2;
+
+        // Invariant: cost(low) < target <= cost(high), with cost(0) read as 0
+        uint256 low = 0;
+        while (high - low > 1) {
+            uint256 mid = (low + high) / 2;
+            if (calculateCost(mid) >= target) {
+                high = mid;
+            } else {
+                low = mid;
+            }
+        }
+        return high;
     }
 }
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+import {BondingCurveToken} from "./BondingCurveToken.sol";
+import {LinearBondingToken} from "./LinearBondingToken.sol";
+
+/**
+ * @title LinearBondingTokenFactory
+ * @author Your Name
+ * @notice Deploys LinearBondingToken instances so anyone can launch a new curve from a wallet
+ * @dev Every deployment is recorded on-chain and announced with a TokenCreated event,
+ *      which frontends can index to discover tokens. Every token pays the factory's protocol fee
+ *      to its fee recipient, and its own creator fee to whoever launched it.
+ */
+contract LinearBondingTokenFactory {
+    /// @notice Emitted when a new bonding curve token is deployed
+    /// @param token The address of the new token
+    /// @param creator The account that called createToken
+    /// @param name The token name
+    /// @param symbol The token symbol
+    /// @param initialPrice The initial price in wei
+    /// @param slope The slope of the bonding curve in wei per token
+    event TokenCreated(
+        address indexed token,
+        address indexed creator,
+        string name,
+        string symbol,
+        uint256 initialPrice,
+        uint256 slope
+    );
+
+    /// @notice Receives the protocol fee of every token this factory deploys
+    address public immutable feeRecipient;
+
+    /// @notice Protocol fee in basis points charged by every token this factory deploys
+    uint256 public immutable protocolFeeBps;
+
+    /// @notice All tokens deployed by this factory, in creation order
+    address[] public allTokens;
+
+    /// @notice Whether an address was deployed by this factory
+    mapping(address => bool) public isFactoryToken;
+
+    /**
+     * @param _feeRecipient Receives the protocol fee (may be zero when the fee is zero)
+     * @param _protocolFeeBps Protocol fee in basis points; tokens reject it above BondingCurveToken.MAX_FEE_BPS
+     */
+    constructor(address _feeRecipient, uint256 _protocolFeeBps) {
+        feeRecipient = _feeRecipient;
+        protocolFeeBps = _protocolFeeBps;
+    }
+
+    /**
+     * @notice Deploys a new LinearBondingToken, with the caller as its creator
+     * @dev Rejects slopes under 2 wei per token, which leave the curve all but flat.
+     *      The token itself rejects a creator fee that pushes the total past MAX_FEE_BPS.
+     * @param _name The name of the token
+     * @param _symbol The symbol of the token
+     * @param _initialPrice The initial price in wei (becomes the floor price)
+     * @param _slope The slope of the bonding curve in wei per token
+     * @param _creatorFeeBps Creator fee in basis points, paid to the caller
+     * @return token The address of the deployed token
+     */
+    function createToken(
+        string calldata _name,
+        string calldata _symbol,
+        uint256 _initialPrice,
+        uint256 _slope,
+        uint256 _creatorFeeBps
+    ) external returns (address token) {
+        require(bytes(_name).length > 0, "Name required");
+        require(bytes(_symbol).length > 0, "Symbol required");
+        require(_slope > 1, "Slope too small");
+
+        token = address(
+            new LinearBondingToken(
+                _name,
+                _symbol,
+                _initialPrice,
+                _slope,
+                BondingCurveToken.FeeConfig({
+                    feeRecipient: feeRecipient,
+                    protocolFeeBps: protocolFeeBps,
+                    creator: msg.sender,
+                    creatorFeeBps: _creatorFeeBps
+                }),
+                // Factory tokens are uncapped
+                LinearBondingToken.Graduation(0, 0, false)
+            )
+        );
+
+        allTokens.push(token);
+        isFactoryToken[token] = true;
+
+        emit TokenCreated(
+            token,
+            msg.sender,
+            _name,
+            _symbol,
+            _initialPrice,
+            _slope
+        );
+    }
+
+    /**
+     * @notice Gets the number of tokens deployed by this factory
+     * @return The length of allTokens
+     */
+    function tokenCount() external view returns (uint256) {
+        return allTokens.length;
+    }
+}
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ud} from "@prb/math/UD60x18.sol";
+import {BondingCurveToken} from "./BondingCurveToken.sol";
+
+/**
+ * @title PolynomialBondingToken
+ * @author Your Name
+ * @notice An ERC20 token whose price grows with a power of the supply
+ * @dev Price formula: p(s) = initialPrice + coefficient * s^exponent, with s in whole tokens.
+ *      Reserve: R(s) = initialPrice * s + coefficient * s^(exponent + 1) / (exponent + 1).
+ *      Exponent 1 is a linear curve, 2 quadratic, and so on up to MAX_EXPONENT.
+ */
+contract PolynomialBondingToken is BondingCurveToken {
+    /// @notice Highest supported exponent; higher powers overflow 18-decimal math at realistic supplies
+    uint256 public constant MAX_EXPONENT = 4;
+
+    /// @notice The initial price of the token in wei (price when supply is 0)
+    uint256 public initialPrice;
+
+    /// @notice Wei added to the price per token^exponent of supply
+    uint256 public coefficient;
+
+    /// @notice The power of the supply the price grows with
+    uint256 public exponent;
+
+    /**
+     * @notice Constructor for the PolynomialBondingToken
+     * @param _name The name of the token
+     * @param _symbol The symbol of the token
+     * @param _initialPrice The initial price in wei (becomes the floor price)
+     * @param _coefficient Wei added to the price per token^exponent
+     * @param _exponent The power of the supply, 1 to MAX_EXPONENT
+     * @param _fees Fee rates and recipients (see BondingCurveToken)
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _initialPrice,
+        uint256 _coefficient,
+        uint256 _exponent,
+        FeeConfig memory _fees
+    ) BondingCurveToken(_name, _symbol, _fees) {
+        require(_coefficient > 0, "Coefficient required");
+        require(
+            _exponent >= 1 && _exponent <= MAX_EXPONENT,
+            "Unsupported exponent"
+        );
+        initialPrice = _initialPrice;
+        coefficient = _coefficient;
+        exponent = _exponent;
+    }
+
+    /**
+     * @notice The shape of this token's price curve
+     * @return Always CurveType.Polynomial
+     */
+    function curveType() external pure returns (CurveType) {
+        return CurveType.Polynomial;
+    }
+
+    /**
+     * @notice The curve parameters
+     * @return params [initialPrice, coefficient, exponent]
+     */
+    function curveParameters()
+        external
+        view
+        returns (uint256[] memory params)
+    {
+        params = new uint256[](3);
+        params[0] = initialPrice;
+        params[1] = coefficient;
+        params[2] = exponent;
+    }
+
+    /**
+     * @notice Price at a specific supply: initialPrice + coefficient * supply^exponent
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The price in wei at the given supply
+     */
+    function _priceAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        return
+            initialPrice +
+            ud(coefficient).mul(ud(supply).powu(exponent)).unwrap();
+    }
+
+    /**
+     * @notice Area under the curve from 0 to `supply`
+     * @dev initialPrice * s + coefficient * s^(exponent + 1) / (exponent + 1)
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The reserve in wei at the given supply
+     */
+    function _reserveAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        return
+            Math.mulDiv(initialPrice, supply, 1e18) +
+            ud(coefficient).mul(ud(supply).powu(exponent + 1)).unwrap() /
+            (exponent + 1);
+    }
+}
@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.27;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {SD59x18, sd, UNIT, ZERO} from "@prb/math/SD59x18.sol";
+import {BondingCurveToken} from "./BondingCurveToken.sol";
+
+/**
+ * @title SigmoidBondingToken
+ * @author Your Name
+ * @notice An ERC20 token whose price follows an S-curve: cheap early, steep around a midpoint, flat near a ceiling
+ * @dev Price formula: p(s) = initialPrice + maxPrice / (1 + e^(-steepness * (s - midpoint))), s in whole tokens.
+ *      Reserve: R(s) = initialPrice * s + maxPrice / steepness * (softplus(x(s)) - softplus(x(0))),
+ *      where x(s) = steepness * (s - midpoint) and softplus(x) = ln(1 + e^x).
+ *      Every exp() call gets a non-positive argument, so the math never leaves PRBMath's range.
+ */
+contract SigmoidBondingToken is BondingCurveToken {
+    /// @notice The initial price of the token in wei (the floor the S-curve starts from)
+    uint256 public initialPrice;
+
+    /// @notice How far the price rises above initialPrice at the top of the curve, in wei
+    uint256 public maxPrice;
+
+    /// @notice How sharply the price rises around the midpoint, per token, 18 decimals
+    uint256 public steepness;
+
+    /// @notice The supply at which the price is halfway up the curve (in wei, 18 decimals)
+    uint256 public midpoint;
+
+    /**
+     * @notice Constructor for the SigmoidBondingToken
+     * @param _name The name of the token
+     * @param _symbol The symbol of the token
+     * @param _initialPrice The initial price in wei
+     * @param _maxPrice The price rise above initialPrice at the top of the curve, in wei
+     * @param _steepness The steepness per token, 18 decimals
+     * @param _midpoint The supply at the curve's midpoint (in wei, 18 decimals)
+     * @param _fees Fee rates and recipients (see BondingCurveToken)
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _initialPrice,
+        uint256 _maxPrice,
+        uint256 _steepness,
+        uint256 _midpoint,
+        FeeConfig memory _fees
+    ) BondingCurveToken(_name, _symbol, _fees) {
+        require(_maxPrice > 0, "Max price required");
+        require(_steepness > 0, "Steepness required");
+        initialPrice = _initialPrice;
+        maxPrice = _maxPrice;
+        steepness = _steepness;
+        midpoint = _midpoint;
+    }
+
+    /**
+     * @notice The shape of this token's price curve
+     * @return Always CurveType.Sigmoid
+     */
+    function curveType() external pure returns (CurveType) {
+        return CurveType.Sigmoid;
+    }
+
+    /**
+     * @notice The curve parameters
+     * @return params [initialPrice, maxPrice, steepness, midpoint]
+     */
+    function curveParameters()
+        external
+        view
+        returns (uint256[] memory params)
+    {
+        params = new uint256[](4);
+        params[0] = initialPrice;
+        params[1] = maxPrice;
+        params[2] = steepness;
+        params[3] = midpoint;
+    }
+
+    /**
+     * @notice Price at a specific supply: initialPrice + maxPrice * logistic(x(supply))
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The price in wei at the given supply
+     */
+    function _priceAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        SD59x18 x = _x(supply);
+        // logistic(x) = 1 / (1 + e^-x), rewritten as e^x / (1 + e^x) below the midpoint
+        SD59x18 logistic = x.gte(ZERO)
+            ? UNIT.div(UNIT.add(ZERO.sub(x).exp()))
+            : x.exp().div(UNIT.add(x.exp()));
+        return
+            initialPrice +
+            uint256(sd(int256(maxPrice)).mul(logistic).unwrap());
+    }
+
+    /**
+     * @notice Area under the curve from 0 to `supply`
+     * @param supply The token supply (in wei, 18 decimals)
+     * @return The reserve in wei at the given supply
+     */
+    function _reserveAt(
+        uint256 supply
+    ) internal view override returns (uint256) {
+        SD59x18 area = _softplus(_x(supply)).sub(_softplus(_x(0)));
+        if (area.lt(ZERO)) area = ZERO;
+        return
+            Math.mulDiv(initialPrice, supply, 1e18) +
+            uint256(
+                sd(int256(maxPrice))
+                    .mul(area)
+                    .div(sd(int256(steepness)))
+                    .unwrap()
+            );
+    }
+
+    /// @dev x(s) = steepness * (s - midpoint), in whole tokens
+    function _x(uint256 supply) private view returns (SD59x18) {
+        return
+            sd(int256(steepness)).mul(
+                sd(int256(supply) - int256(midpoint))
+            );
+    }
+
+    /// @dev ln(1 + e^x), rewritten as x + ln(1 + e^-x) for positive x
+    function _softplus(SD59x18 x) private pure returns (SD59x18) {
+        if (x.gt(ZERO)) {
+            return x.add(UNIT.add(ZERO.sub(x).exp()).ln());
+        }
+        return UNIT.add(x.exp()).ln();
+    }
+}
@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {LinearBondingToken} from "../src/LinearBondingToken.sol";
+import {BondingCurveToken} from "../src/BondingCurveToken.sol";
+
+// A fee recipient that refuses ETH
+contract RejectsEth {
+    receive() external payable {
+        revert("No ETH");
+    }
+}
+
+contract BondingCurveFeesTest is Test {
+    LinearBondingToken public token;
+
+    uint256 constant INITIAL_PRICE = 1e15; // 0.001 ETH
+    uint256 constant SLOPE = 1e12; // 0.000001 ETH per token
+    uint256 constant PROTOCOL_FEE_BPS = 50; // 0.5%
+    uint256 constant CREATOR_FEE_BPS = 100; // 1%
+
+    LinearBondingToken.Graduation NO_CAP;
+
+    address protocol = makeAddr("protocol");
+    address creator = makeAddr("creator");
+    address bob = makeAddr("bob");
+
+    event FeesCollected(
+        address indexed trader,
+        uint256 protocolFee,
+        uint256 creatorFee
+    );
+
+    event FeesWithdrawn(address indexed recipient, uint256 amount);
+
+    function setUp() public {
+        token = new LinearBondingToken(
+            "Fee Token",
+            "FEE",
+            INITIAL_PRICE,
+            SLOPE,
+            BondingCurveToken.FeeConfig(
+                protocol,
+                PROTOCOL_FEE_BPS,
+                creator,
+                CREATOR_FEE_BPS
+            ),
+            NO_CAP
+        );
+        vm.deal(bob, 100 ether);
+    }
+
+    function testQuoteMintAddsFeesToCost() public view {
+        uint256 cost = token.calculateCost(100e18);
+        (uint256 total, uint256 protocolFee, uint256 creatorFee) = token
+            .quoteMint(100e18);
+
+        assertEq(protocolFee, (cost * PROTOCOL_FEE_BPS) / 10_000);
+        assertEq(creatorFee, (cost * CREATOR_FEE_BPS) / 10_000);
+        assertEq(total, cost + protocolFee + creatorFee);
+    }
+
+    function testMintPaysFeesAndKeepsReserveOnCurve() public {
+        (uint256 total, uint256 protocolFee, uint256 creatorFee) = token
+            .quoteMint(100e18);
+        uint256 cost = token.calculateCost(100e18);
+
+        vm.expectEmit(true, false, false, true);
+        emit FeesCollected(bob, protocolFee, creatorFee);
+        vm.prank(bob);
+        token.mintTokens{value: total + 1 ether}(100e18, 100e18);
+
+        assertEq(token.pendingFees(protocol), protocolFee);
+        assertEq(token.pendingFees(creator), creatorFee);
+        assertEq(token.totalPendingFees(), protocolFee + creatorFee);
+        // The curve cost and the fees owed stay behind; the excess went back to bob
+        assertEq(address(token).balance, cost + protocolFee + creatorFee);
+        assertEq(bob.balance, 100 ether - total);
+    }
+
+    function testBuyWithEthSpendsTheBudgetIncludingFees() public {
+        uint256 amount = token.calculateTokensForEth(1 ether);
+        (uint256 total, uint256 protocolFee, uint256 creatorFee) = token
+            .quoteMint(amount);
+
+        vm.prank(bob);
+        token.buyWithEth{value: 1 ether}(amount);
+
+        assertEq(token.balanceOf(bob), amount);
+        assertEq(token.pendingFees(protocol), protocolFee);
+        assertEq(token.pendingFees(creator), creatorFee);
+        // The part of the budget the last token couldn't use comes back
+        assertEq(bob.balance, 100 ether - total);
+        assertLe(total, 1 ether);
+    }
+
+    function testMintRevertsWithoutFees() public {
+        uint256 cost = token.calculateCost(100e18);
+        vm.prank(bob);
+        vm.expectRevert("Insufficient ETH sent");
+        token.mintTokens{value: cost}(100e18, 100e18);
+    }
+
+    function testBurnPaysFeesOutOfRefund() public {
+        (uint256 total, , ) = token.quoteMint(100e18);
+        vm.prank(bob);
+        token.mintTokens{value: total}(100e18, 100e18);
+        uint256 mintProtocolFee = token.pendingFees(protocol);
+        uint256 mintCreatorFee = token.pendingFees(creator);
+
+        uint256 refund = token.calculateRefund(40e18);
+        (uint256 net, uint256 protocolFee, uint256 creatorFee) = token
+            .quoteBurn(40e18);
+        assertEq(net, refund - protocolFee - creatorFee);
+
+        uint256 balanceBefore = bob.balance;
+        vm.expectEmit(true, false, false, true);
+        emit FeesCollected(bob, protocolFee, creatorFee);
+        vm.prank(bob);
+        token.burnTokens(40e18, net);
+
+        assertEq(bob.balance, balanceBefore + net);
+        assertEq(token.pendingFees(protocol), mintProtocolFee + protocolFee);
+        assertEq(token.pendingFees(creator), mintCreatorFee + creatorFee);
+    }
+
+    function testBurnSlippageIsCheckedAgainstNet() public {
+        (uint256 total, , ) = token.quoteMint(100e18);
+        vm.prank(bob);
+        token.mintTokens{value: total}(100e18, 100e18);
+
+        // The pre-fee refund is no longer reachable
+        uint256 refund = token.calculateRefund(100e18);
+        vm.prank(bob);
+        vm.expectRevert("Slippage: less ETH than expected");
+        token.burnTokens(100e18, refund);
+    }
+
+    function testTokensForEthLeavesRoomForFees() public {
+        uint256 amount = token.calculateTokensForEth(1 ether);
+        (uint256 total, , ) = token.quoteMint(amount);
+        assertLe(total, 1 ether);
+        // Fee rounding aside, nothing meaningful is left unspent
+        assertApproxEqRel(total, 1 ether, 1e12);
+
+        vm.prank(bob);
+        token.mintTokens{value: 1 ether}(amount, amount);
+        assertEq(token.balanceOf(bob), amount);
+    }
+
+    function testFullExitLeavesNoShortfall() public {
+        uint256 amount = token.calculateTokensForEth(5 ether);
+        vm.startPrank(bob);
+        token.mintTokens{value: 5 ether}(amount, amount);
+        token.burnTokens(amount / 3, 0);
+        token.burnTokens(amount - amount / 3, 0);
+        vm.stopPrank();
+
+        assertEq(token.totalSupply(), 0);
+        // Fees never came out of the reserve, so past what's owed to the recipients
+        // at most rounding dust is left
+        assertLt(address(token).balance - token.totalPendingFees(), 1e6);
+
+        vm.prank(protocol);
+        token.withdrawFees();
+        vm.prank(creator);
+        token.withdrawFees();
+        assertLt(address(token).balance, 1e6);
+    }
+
+    function testRecipientsWithdrawTheirFees() public {
+        (uint256 total, uint256 protocolFee, uint256 creatorFee) = token
+            .quoteMint(100e18);
+        vm.prank(bob);
+        token.mintTokens{value: total}(100e18, 100e18);
+
+        vm.expectEmit(true, false, false, true);
+        emit FeesWithdrawn(creator, creatorFee);
+        vm.prank(creator);
+        token.withdrawFees();
+        assertEq(creator.balance, creatorFee);
+        assertEq(token.pendingFees(creator), 0);
+        assertEq(token.totalPendingFees(), protocolFee);
+
+        // Nothing left to pull until the next trade
+        vm.prank(creator);
+        vm.expectRevert("No fees to withdraw");
+        token.withdrawFees();
+    }
+
+    function testCreatorThatRejectsEthCannotBlockTrading() public {
+        RejectsEth rejecter = new RejectsEth();
+        LinearBondingToken blocked = new LinearBondingToken(
+            "Fee Token",
+            "FEE",
+            INITIAL_PRICE,
+            SLOPE,
+            BondingCurveToken.FeeConfig(
+                protocol,
+                PROTOCOL_FEE_BPS,
+                address(rejecter),
+                CREATOR_FEE_BPS
+            ),
+            NO_CAP
+        );
+
+        (uint256 total, , ) = blocked.quoteMint(100e18);
+        vm.prank(bob);
+        blocked.mintTokens{value: total}(100e18, 100e18);
+
+        // Holders can still sell everything
+        (uint256 net, , ) = blocked.quoteBurn(100e18);
+        uint256 balanceBefore = bob.balance;
+        vm.prank(bob);
+        blocked.burnTokens(100e18, net);
+        assertEq(bob.balance, balanceBefore + net);
+        assertEq(blocked.totalSupply(), 0);
+
+        // Only the creator's own withdrawal fails, and its fees stay owed
+        uint256 owed = blocked.pendingFees(address(rejecter));
+        assertGt(owed, 0);
+        vm.prank(address(rejecter));
+        vm.expectRevert("Fee withdrawal failed");
+        blocked.withdrawFees();
+        assertEq(blocked.pendingFees(address(rejecter)), owed);
+    }
+
+    function testRejectsInvalidFeeConfig() public {
+        vm.expectRevert("Fees too high");
+        new LinearBondingToken(
+            "Fee Token",
+            "FEE",
+            INITIAL_PRICE,
+            SLOPE,
+            BondingCurveToken.FeeConfig(protocol, 600, creator, 401),
+            NO_CAP
+        );
+
+        vm.expectRevert("Fee recipient required");
+        new LinearBondingToken(
+            "Fee Token",
+            "FEE",
+            INITIAL_PRICE,
+            SLOPE,
+            BondingCurveToken.FeeConfig(address(0), 50, creator, 0),
+            NO_CAP
+        );
+
+        vm.expectRevert("Creator required");
+        new LinearBondingToken(
+            "Fee Token",
+            "FEE",
+            INITIAL_PRICE,
+            SLOPE,
+            BondingCurveToken.FeeConfig(protocol, 0, address(0), 100),
+            NO_CAP
+        );
+    }
+}
@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {BondingCurveToken} from "../src/BondingCurveToken.sol";
+import {IBondingCurve} from "../src/IBondingCurve.sol";
+import {ExponentialBondingToken} from "../src/ExponentialBondingToken.sol";
+import {PolynomialBondingToken} from "../src/PolynomialBondingToken.sol";
+import {SigmoidBondingToken} from "../src/SigmoidBondingToken.sol";
+
+contract CurveShapesTest is Test {
+    BondingCurveToken.FeeConfig NO_FEES;
+
+    ExponentialBondingToken public exponential;
+    PolynomialBondingToken public polynomial;
+    SigmoidBondingToken public sigmoid;
+
+    address bob = makeAddr("bob");
+    address carol = makeAddr("carol");
+
+    function setUp() public {
+        // ~1% price growth per token, from 0.001 ETH
+        exponential = new ExponentialBondingToken("Exp", "EXP", 1e15, 1e16, NO_FEES);
+        // Quadratic: 0.0001 ETH + 1e-6 ETH * s^2
+        polynomial = new PolynomialBondingToken("Poly", "POLY", 1e14, 1e12, 2, NO_FEES);
+        // Rises by 0.01 ETH around 1000 tokens
+        sigmoid = new SigmoidBondingToken("Sig", "SIG", 1e14, 1e16, 1e16, 1000e18, NO_FEES);
+
+        vm.deal(bob, 1000 ether);
+        vm.deal(carol, 1000 ether);
+    }
+
+    function _tokens() internal view returns (BondingCurveToken[3] memory) {
+        return [
+            BondingCurveToken(exponential),
+            BondingCurveToken(polynomial),
+            BondingCurveToken(sigmoid)
+        ];
+    }
+
+    function testCurveTypeAndParameters() public view {
+        assertEq(uint8(exponential.curveType()), uint8(IBondingCurve.CurveType.Exponential));
+        uint256[] memory exp = exponential.curveParameters();
+        assertEq(exp.length, 2);
+        assertEq(exp[0], 1e15);
+        assertEq(exp[1], 1e16);
+
+        assertEq(uint8(polynomial.curveType()), uint8(IBondingCurve.CurveType.Polynomial));
+        uint256[] memory poly = polynomial.curveParameters();
+        assertEq(poly.length, 3);
+        assertEq(poly[0], 1e14);
+        assertEq(poly[1], 1e12);
+        assertEq(poly[2], 2);
+
+        assertEq(uint8(sigmoid.curveType()), uint8(IBondingCurve.CurveType.Sigmoid));
+        uint256[] memory sig = sigmoid.curveParameters();
+        assertEq(sig.length, 4);
+        assertEq(sig[0], 1e14);
+        assertEq(sig[1], 1e16);
+        assertEq(sig[2], 1e16);
+        assertEq(sig[3], 1000e18);
+    }
+
+    function testStartingPrices() public view {
+        assertEq(exponential.getCurrentPrice(), 1e15);
+        assertEq(polynomial.getCurrentPrice(), 1e14);
+        // logistic(-10) ~= 4.54e-5 of the 0.01 ETH rise
+        assertApproxEqRel(sigmoid.getCurrentPrice(), 1e14 + 4.5398e11, 1e15);
+    }
+
+    function testSigmoidIsHalfwayAtMidpoint() public {
+        uint256 cost = sigmoid.calculateCost(1000e18);
+        vm.prank(bob);
+        sigmoid.mintTokens{value: cost}(1000e18, 1000e18);
+        assertApproxEqAbs(sigmoid.getCurrentPrice(), 1e14 + 5e15, 1e3);
+    }
+
+    function testRejectsInvalidParameters() public {
+        vm.expectRevert("Growth rate required");
+        new ExponentialBondingToken("Exp", "EXP", 1e15, 0, NO_FEES);
+
+        vm.expectRevert("Unsupported exponent");
+        new PolynomialBondingToken("Poly", "POLY", 1e14, 1e12, 5, NO_FEES);
+
+        vm.expectRevert("Steepness required");
+        new SigmoidBondingToken("Sig", "SIG", 1e14, 1e16, 0, 1000e18, NO_FEES);
+    }
+
+    function testPriceIncreasesWithEveryBuy() public {
+        BondingCurveToken[3] memory tokens = _tokens();
+        for (uint256 t = 0; t < tokens.length; t++) {
+            uint256 previous = tokens[t].getCurrentPrice();
+            for (uint256 i = 0; i < 5; i++) {
+                uint256 amount = tokens[t].calculateTokensForEth(0.5 ether);
+                vm.prank(bob);
+                tokens[t].mintTokens{value: 0.5 ether}(amount, amount);
+
+                uint256 price = tokens[t].getCurrentPrice();
+                assertGt(price, previous, "Price should always increase");
+                previous = price;
+            }
+        }
+    }
+
+    function testTokensForEthIsTheLargestAffordableAmount() public {
+        BondingCurveToken[3] memory tokens = _tokens();
+        for (uint256 t = 0; t < tokens.length; t++) {
+            // Move off zero supply first so the search starts mid-curve
+            uint256 seed = tokens[t].calculateTokensForEth(1 ether);
+            vm.prank(carol);
+            tokens[t].mintTokens{value: 1 ether}(seed, seed);
+
+            uint256 amount = tokens[t].calculateTokensForEth(0.3 ether);
+            assertLe(tokens[t].calculateCost(amount), 0.3 ether);
+            assertGt(tokens[t].calculateCost(amount + 1), 0.3 ether);
+        }
+    }
+
+    function testReserveCoversEveryRefund() public {
+        BondingCurveToken[3] memory tokens = _tokens();
+        for (uint256 t = 0; t < tokens.length; t++) {
+            BondingCurveToken token = tokens[t];
+
+            uint256 bobTokens = token.calculateTokensForEth(2 ether);
+            vm.prank(bob);
+            token.mintTokens{value: 2 ether}(bobTokens, bobTokens);
+
+            uint256 carolTokens = token.calculateTokensForEth(3 ether);
+            vm.prank(carol);
+            token.mintTokens{value: 3 ether}(carolTokens, carolTokens);
+
+            // Sell in a different order and in uneven slices
+            vm.startPrank(bob);
+            token.burnTokens(bobTokens / 3, 0);
+            token.burnTokens(bobTokens - bobTokens / 3, 0);
+            vm.stopPrank();
+
+            vm.prank(carol);
+            token.burnTokens(carolTokens, 0);
+
+            assertEq(token.totalSupply(), 0);
+            // Whatever is left over is rounding dust, never a shortfall
+            assertLt(address(token).balance, 1e6);
+        }
+    }
+
+    function testBuyThenSellReturnsCost() public {
+        BondingCurveToken[3] memory tokens = _tokens();
+        for (uint256 t = 0; t < tokens.length; t++) {
+            uint256 amount = 50e18;
+            uint256 cost = tokens[t].calculateCost(amount);
+
+            vm.prank(bob);
+            tokens[t].mintTokens{value: cost}(amount, amount);
+            assertEq(tokens[t].calculateRefund(amount), cost);
+        }
+    }
+
+    function testExponentialRevertsPastExpRange() public {
+        // growthRate * supply above ~133 is out of range for PRBMath's exp
+        vm.expectRevert();
+        exponential.calculateCost(20_000e18);
+    }
+}
@@ -3,6 +3,8 @@ pragma solidity ^0.8.27;
 
 import {Test, console2} from "forge-std/Test.sol";
 import {LinearBondingToken} from "../src/LinearBondingToken.sol";
+import {BondingCurveToken} from "../src/BondingCurveToken.sol";
+import {IBondingCurve} from "../src/IBondingCurve.sol";
 import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
 
 // Reentrancy attack contract
@@ -20,7 +22,7 @@ contract ReentrancyAttacker {
         attackAmount = amount;
         attacking = true;
         reentrancyAttempts = 0;
-        token.burnTokens(amount);
+        token.burnTokens(amount, 0);
     }
 
     receive() external payable {
@@ -28,7 +30,7 @@ contract ReentrancyAttacker {
             reentrancyAttempts++;
             console2.log("Reentrancy attempt #", reentrancyAttempts);
             // Try to reenter
-            token.burnTokens(attackAmount);
+            token.burnTokens(attackAmount, 0);
         }
     }
 }
@@ -47,7 +49,9 @@ contract LinearBondingTokenTest is Test {
             TOKEN_NAME,
             TOKEN_SYMBOL,
             INITIAL_PRICE,
-            SLOPE
+            SLOPE,
+            BondingCurveToken.FeeConfig(address(0), 0, address(0), 0),
+            LinearBondingToken.Graduation(0, 0, false)
         );
     }
 
@@ -61,6 +65,14 @@ contract LinearBondingTokenTest is Test {
         assertEq(token.totalSupply(), 0);
     }
 
+    function testCurveTypeAndParameters() public view {
+        assertEq(uint8(token.curveType()), uint8(IBondingCurve.CurveType.Linear));
+        uint256[] memory params = token.curveParameters();
+        assertEq(params.length, 2);
+        assertEq(params[0], INITIAL_PRICE);
+        assertEq(params[1], SLOPE);
+    }
+
     function testSequentialBuys() public {
         // Use an EOA for buys so refunds work properly
         address bob = makeAddr("bob");
@@ -136,7 +148,7 @@ contract LinearBondingTokenTest is Test {
         // 3) Ten sequential sells; after each, price and supply must go down
         for (uint256 i = 0; i < 10; i++) {
             vm.prank(bob);
-            token.burnTokens(pile);
+            token.burnTokens(pile, 0);
 
             uint256 curPrice = token.getCurrentPrice();
             uint256 curSupply = token.totalSupply();
@@ -186,7 +198,7 @@ contract LinearBondingTokenTest is Test {
 
         // Sell exactly the 11th buy
         vm.prank(bob);
-        token.burnTokens(bought11);
+        token.burnTokens(bought11, 0);
 
         // Should return exactly to the baseline
         uint256 priceAfterSell = token.getCurrentPrice();
@@ -262,7 +274,7 @@ contract LinearBondingTokenTest is Test {
 
         uint256 bobBefore = bob.balance;
         vm.prank(bob);
-        token.burnTokens(x);
+        token.burnTokens(x, 0);
         uint256 refund = bob.balance - bobBefore;
 
         assertEq(refund, expected);
@@ -302,7 +314,7 @@ contract LinearBondingTokenTest is Test {
 
         // Reset for next test
         vm.prank(bob);
-        token.burnTokens(amount);
+        token.burnTokens(amount, 0);
 
         // Test with minTokenOut greater than amount - should revert
         vm.expectRevert("Slippage: fewer tokens than expected");
@@ -337,6 +349,195 @@ contract LinearBondingTokenTest is Test {
         assertEq(token.balanceOf(bob), amount);
     }
 
+    function testSellSlippageProtection() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 amount = 10e18; // 10 tokens
+        vm.prank(bob);
+        token.mintTokens{value: token.calculateCost(amount)}(amount, amount);
+
+        uint256 refund = token.calculateRefund(amount / 2);
+
+        // Test with minEthOut greater than the refund - should revert
+        vm.expectRevert("Slippage: less ETH than expected");
+        vm.prank(bob);
+        token.burnTokens(amount / 2, refund + 1);
+
+        // Test with minEthOut equal to the refund - should succeed
+        uint256 ethBefore = bob.balance;
+        vm.prank(bob);
+        token.burnTokens(amount / 2, refund);
+        assertEq(bob.balance - ethBefore, refund);
+    }
+
+    function testSellFrontRunByAnotherBurnReverts() public {
+        address alice = makeAddr("alice");
+        address bob = makeAddr("bob");
+        vm.deal(alice, 10 ether);
+        vm.deal(bob, 10 ether);
+
+        uint256 amount = 100e18;
+        vm.prank(alice);
+        token.mintTokens{value: token.calculateCost(amount)}(amount, amount);
+        vm.prank(bob);
+        token.mintTokens{value: token.calculateCost(amount)}(amount, amount);
+
+        // Bob quotes his sell before Alice's burn lands
+        uint256 quotedRefund = token.calculateRefund(amount);
+
+        vm.prank(alice);
+        token.burnTokens(amount, 0);
+
+        // The curve moved down, so Bob's sell would now pay less than quoted
+        assertLt(token.calculateRefund(amount), quotedRefund);
+        vm.expectRevert("Slippage: less ETH than expected");
+        vm.prank(bob);
+        token.burnTokens(amount, quotedRefund);
+    }
+
+    function testMintWithDeadline() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 amount = 10e18;
+        uint256 cost = token.calculateCost(amount);
+
+        // Executes up to and including the deadline
+        vm.prank(bob);
+        token.mintTokensWithDeadline{value: cost}(
+            amount,
+            amount,
+            block.timestamp
+        );
+        assertEq(token.balanceOf(bob), amount);
+
+        // A mint that sat in the mempool past its deadline reverts
+        uint256 deadline = block.timestamp + 5 minutes;
+        vm.warp(deadline + 1);
+        cost = token.calculateCost(amount);
+        vm.expectRevert("Transaction expired");
+        vm.prank(bob);
+        token.mintTokensWithDeadline{value: cost}(amount, amount, deadline);
+    }
+
+    function testBurnWithDeadline() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 amount = 10e18;
+        vm.prank(bob);
+        token.mintTokens{value: token.calculateCost(amount)}(amount, amount);
+
+        uint256 deadline = block.timestamp + 5 minutes;
+        vm.warp(deadline + 1);
+        vm.expectRevert("Transaction expired");
+        vm.prank(bob);
+        token.burnTokensWithDeadline(amount, 0, deadline);
+
+        // Same burn with a fresh deadline goes through and keeps its slippage check
+        uint256 refund = token.calculateRefund(amount);
+        vm.expectRevert("Slippage: less ETH than expected");
+        vm.prank(bob);
+        token.burnTokensWithDeadline(amount, refund + 1, block.timestamp);
+
+        uint256 ethBefore = bob.balance;
+        vm.prank(bob);
+        token.burnTokensWithDeadline(amount, refund, block.timestamp);
+        assertEq(bob.balance - ethBefore, refund);
+        assertEq(token.balanceOf(bob), 0);
+    }
+
+    function testBuyWithEthMintsWhatTheEthBuys() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 expected = token.calculateTokensForEth(1 ether);
+        uint256 cost = token.calculateCost(expected);
+
+        vm.prank(bob);
+        token.buyWithEth{value: 1 ether}(expected);
+
+        assertEq(token.balanceOf(bob), expected);
+        assertEq(address(token).balance, cost);
+        // Whatever the curve couldn't use is refunded
+        assertEq(bob.balance, 10 ether - cost);
+    }
+
+    function testBuyWithEthSlippageProtection() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 expected = token.calculateTokensForEth(1 ether);
+
+        vm.expectRevert("Slippage: fewer tokens than expected");
+        vm.prank(bob);
+        token.buyWithEth{value: 1 ether}(expected + 1);
+    }
+
+    function testBuyWithEthWithDeadline() public {
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        uint256 deadline = block.timestamp + 5 minutes;
+        vm.warp(deadline + 1);
+        vm.expectRevert("Transaction expired");
+        vm.prank(bob);
+        token.buyWithEthWithDeadline{value: 1 ether}(0, deadline);
+
+        uint256 expected = token.calculateTokensForEth(1 ether);
+        vm.prank(bob);
+        token.buyWithEthWithDeadline{value: 1 ether}(expected, block.timestamp);
+        assertEq(token.balanceOf(bob), expected);
+    }
+
+    function testFuzzCalculateTokensForEthNeverOvershoots(
+        uint256 initialPrice,
+        uint256 slope,
+        uint256 supply,
+        uint256 feeBps,
+        uint256 ethAmount
+    ) public {
+        // Odd slopes included: the amount must be what the ETH pays for, to the wei
+        initialPrice = bound(initialPrice, 0, 1e16);
+        slope = bound(slope, 1, 1e15);
+        supply = bound(supply, 0, 1e24);
+        feeBps = bound(feeBps, 0, 1000);
+        ethAmount = bound(ethAmount, 1, 1000 ether);
+
+        LinearBondingToken curve = new LinearBondingToken(
+            TOKEN_NAME,
+            TOKEN_SYMBOL,
+            initialPrice,
+            slope,
+            BondingCurveToken.FeeConfig(makeAddr("protocol"), feeBps / 2, makeAddr("creator"), feeBps - feeBps / 2),
+            LinearBondingToken.Graduation(0, 0, false)
+        );
+
+        if (supply > 0) {
+            (uint256 seedCost, , ) = curve.quoteMint(supply);
+            address alice = makeAddr("alice");
+            vm.deal(alice, seedCost);
+            vm.prank(alice);
+            curve.mintTokens{value: seedCost}(supply, supply);
+        }
+
+        uint256 budget = Math.mulDiv(ethAmount, 10_000, 10_000 + feeBps);
+        vm.assume(curve.calculateCost(1) <= budget);
+
+        uint256 amount = curve.calculateTokensForEth(ethAmount);
+        (uint256 total, , ) = curve.quoteMint(amount);
+        assertLe(total, ethAmount, "Costs more than the ETH sent");
+        // And it's the most the budget buys
+        assertGt(curve.calculateCost(amount + 1), budget);
+
+        address bob = makeAddr("bob");
+        vm.deal(bob, ethAmount);
+        vm.prank(bob);
+        curve.buyWithEth{value: ethAmount}(amount);
+        assertEq(curve.balanceOf(bob), amount);
+    }
+
     function testZeroEthMintWithEthReverts() public {
         address bob = makeAddr("bob");
         vm.deal(bob, 1 ether);
@@ -360,7 +561,7 @@ contract LinearBondingTokenTest is Test {
         // Try to burn 0 tokens - this should work but refund 0 ETH
         uint256 ethBefore = bob.balance;
         vm.prank(bob);
-        token.burnTokens(0);
+        token.burnTokens(0, 0);
 
         // Should have same token balance and no ETH refund
         assertEq(token.balanceOf(bob), balanceBefore);
@@ -380,7 +581,7 @@ contract LinearBondingTokenTest is Test {
         // Try to burn more than balance
         vm.expectRevert("Insufficient balance to burn");
         vm.prank(bob);
-        token.burnTokens(balance + 1);
+        token.burnTokens(balance + 1, 0);
     }
 
     function testBurnMoreThanTotalSupplyReverts() public {
@@ -396,7 +597,7 @@ contract LinearBondingTokenTest is Test {
         // Try to burn more than total supply - should revert with insufficient balance
         vm.expectRevert("Insufficient balance to burn");
         vm.prank(bob);
-        token.burnTokens(totalSupply + 1);
+        token.burnTokens(totalSupply + 1, 0);
     }
 
     function testReentrancyProtection() public {
@@ -502,7 +703,7 @@ contract LinearBondingTokenTest is Test {
         // Burn some tokens and check price consistency
         uint256 burnAmount = supplyAfterBuy / 2;
         vm.prank(bob);
-        token.burnTokens(burnAmount);
+        token.burnTokens(burnAmount, 0);
 
         uint256 priceAfterBurn = token.getCurrentPrice();
         uint256 supplyAfterBurn = token.totalSupply();
@@ -560,7 +761,7 @@ contract LinearBondingTokenTest is Test {
         // Try to burn tokens - should revert due to insufficient ETH for refund
         vm.expectRevert("Contract has insufficient ETH for refund");
         vm.prank(bob);
-        token.burnTokens(balance);
+        token.burnTokens(balance, 0);
     }
 
     function testNegativeDiscriminantInQuadraticFormula() public {
@@ -609,12 +810,19 @@ contract LinearBondingTokenTest is Test {
     }
 
     function testNotEnoughEthToBuyTokens() public {
-        address bob = makeAddr("bob");
-        vm.deal(bob, 1 ether);
+        // At over 1 ETH per token even the smallest unit costs more than 1 wei
+        LinearBondingToken pricey = new LinearBondingToken(
+            TOKEN_NAME,
+            TOKEN_SYMBOL,
+            2 ether,
+            SLOPE,
+            BondingCurveToken.FeeConfig(address(0), 0, address(0), 0),
+            LinearBondingToken.Graduation(0, 0, false)
+        );
 
         // Try to buy with very small amount of ETH
         vm.expectRevert("Not enough ETH to buy tokens");
-        token.calculateTokensForEth(1 wei);
+        pricey.calculateTokensForEth(1 wei);
     }
 
     function testCalculateRefundWithZeroSupply() public view {
@@ -692,7 +900,7 @@ contract LinearBondingTokenTest is Test {
 
         uint256 gasStart = gasleft();
         vm.prank(bob);
-        token.burnTokens(burnAmount);
+        token.burnTokens(burnAmount, 0);
         uint256 gasUsed = gasStart - gasleft();
 
         console2.log("Gas used for burn transaction:", gasUsed);
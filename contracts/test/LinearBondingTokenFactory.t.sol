@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {LinearBondingToken} from "../src/LinearBondingToken.sol";
+import {LinearBondingTokenFactory} from "../src/LinearBondingTokenFactory.sol";
+
+contract LinearBondingTokenFactoryTest is Test {
+    LinearBondingTokenFactory public factory;
+
+    // Test parameters
+    string constant TOKEN_NAME = "Test Token";
+    string constant TOKEN_SYMBOL = "TEST";
+    uint256 constant INITIAL_PRICE = 1e15; // 0.001 ETH (15 decimals)
+    uint256 constant SLOPE = 1e12; // 0.000001 ETH per token (15 decimals)
+    uint256 constant PROTOCOL_FEE_BPS = 50; // 0.5%
+    uint256 constant CREATOR_FEE_BPS = 100; // 1%
+    address constant PROTOCOL = address(0xFEE);
+
+    event TokenCreated(
+        address indexed token,
+        address indexed creator,
+        string name,
+        string symbol,
+        uint256 initialPrice,
+        uint256 slope
+    );
+
+    function setUp() public {
+        factory = new LinearBondingTokenFactory(PROTOCOL, PROTOCOL_FEE_BPS);
+    }
+
+    function testCreateTokenDeploysConfiguredToken() public {
+        address alice = makeAddr("alice");
+
+        vm.prank(alice);
+        address created = factory.createToken(
+            TOKEN_NAME,
+            TOKEN_SYMBOL,
+            INITIAL_PRICE,
+            SLOPE,
+            CREATOR_FEE_BPS
+        );
+
+        LinearBondingToken token = LinearBondingToken(created);
+        assertEq(token.name(), TOKEN_NAME);
+        assertEq(token.symbol(), TOKEN_SYMBOL);
+        assertEq(token.initialPrice(), INITIAL_PRICE);
+        assertEq(token.slope(), SLOPE);
+        assertEq(token.totalSupply(), 0);
+        assertEq(token.feeRecipient(), PROTOCOL);
+        assertEq(token.protocolFeeBps(), PROTOCOL_FEE_BPS);
+        assertEq(token.creator(), alice);
+        assertEq(token.creatorFeeBps(), CREATOR_FEE_BPS);
+        assertEq(token.maxSupply(), 0);
+
+        assertEq(factory.tokenCount(), 1);
+        assertEq(factory.allTokens(0), created);
+        assertTrue(factory.isFactoryToken(created));
+    }
+
+    function testCreateTokenEmitsTokenCreated() public {
+        address alice = makeAddr("alice");
+
+        // The token address is not known up front, so only check the creator topic and data
+        vm.expectEmit(false, true, false, true);
+        emit TokenCreated(
+            address(0),
+            alice,
+            TOKEN_NAME,
+            TOKEN_SYMBOL,
+            INITIAL_PRICE,
+            SLOPE
+        );
+        vm.prank(alice);
+        factory.createToken(TOKEN_NAME, TOKEN_SYMBOL, INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS);
+    }
+
+    function testCreatedTokenIsTradable() public {
+        address alice = makeAddr("alice");
+        address bob = makeAddr("bob");
+        vm.deal(bob, 10 ether);
+
+        // Created by alice so the creator fee is credited to her
+        vm.prank(alice);
+        LinearBondingToken token = LinearBondingToken(
+            factory.createToken(TOKEN_NAME, TOKEN_SYMBOL, INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS)
+        );
+
+        uint256 expectedTokens = token.calculateTokensForEth(1 ether);
+        vm.prank(bob);
+        token.mintTokens{value: 1 ether}(expectedTokens, expectedTokens);
+        assertEq(token.balanceOf(bob), expectedTokens);
+        assertGt(token.pendingFees(alice), 0);
+        assertGt(token.pendingFees(PROTOCOL), 0);
+    }
+
+    function testMultipleTokensAreTrackedInOrder() public {
+        address first = factory.createToken("First", "ONE", INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS);
+        address second = factory.createToken("Second", "TWO", INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS);
+
+        assertEq(factory.tokenCount(), 2);
+        assertEq(factory.allTokens(0), first);
+        assertEq(factory.allTokens(1), second);
+        assertTrue(first != second);
+    }
+
+    function testCreateTokenValidatesParameters() public {
+        vm.expectRevert("Name required");
+        factory.createToken("", TOKEN_SYMBOL, INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS);
+
+        vm.expectRevert("Symbol required");
+        factory.createToken(TOKEN_NAME, "", INITIAL_PRICE, SLOPE, CREATOR_FEE_BPS);
+
+        vm.expectRevert("Slope too small");
+        factory.createToken(TOKEN_NAME, TOKEN_SYMBOL, INITIAL_PRICE, 1, CREATOR_FEE_BPS);
+
+        vm.expectRevert("Fees too high");
+        factory.createToken(TOKEN_NAME, TOKEN_SYMBOL, INITIAL_PRICE, SLOPE, 1000);
+    }
+}
@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {LinearBondingToken} from "../src/LinearBondingToken.sol";
+import {BondingCurveToken} from "../src/BondingCurveToken.sol";
+
+contract LinearBondingTokenGraduationTest is Test {
+    uint256 constant INITIAL_PRICE = 1e15; // 0.001 ETH
+    uint256 constant SLOPE = 1e12; // 0.000001 ETH per token
+    uint256 constant MAX_SUPPLY = 1000e18;
+
+    BondingCurveToken.FeeConfig NO_FEES;
+
+    address bob = makeAddr("bob");
+
+    event Graduated(uint256 supply, uint256 reserve);
+
+    function setUp() public {
+        vm.deal(bob, 1000 ether);
+    }
+
+    function _deploy(
+        uint256 maxSupply,
+        uint256 reserveTarget,
+        bool freezeBurns
+    ) internal returns (LinearBondingToken) {
+        return
+            new LinearBondingToken(
+                "Capped",
+                "CAP",
+                INITIAL_PRICE,
+                SLOPE,
+                NO_FEES,
+                LinearBondingToken.Graduation(
+                    maxSupply,
+                    reserveTarget,
+                    freezeBurns
+                )
+            );
+    }
+
+    function _buy(LinearBondingToken token, uint256 amount) internal {
+        uint256 cost = token.calculateCost(amount);
+        vm.prank(bob);
+        token.mintTokens{value: cost}(amount, amount);
+    }
+
+    function testUncappedByDefault() public {
+        LinearBondingToken token = _deploy(0, 0, false);
+        assertEq(token.maxSupply(), 0);
+        assertEq(token.remainingSupply(), type(uint256).max);
+
+        _buy(token, 5000e18);
+        assertFalse(token.graduated());
+    }
+
+    function testMintingUpToTheCapGraduates() public {
+        LinearBondingToken token = _deploy(MAX_SUPPLY, 0, false);
+        _buy(token, 600e18);
+        assertEq(token.remainingSupply(), 400e18);
+
+        // Reports the ETH actually held, not the closed-form reserve at the cap
+        uint256 cost = token.calculateCost(400e18);
+        uint256 reserve = address(token).balance + cost;
+        vm.expectEmit(false, false, false, true);
+        emit Graduated(MAX_SUPPLY, reserve);
+        vm.prank(bob);
+        token.mintTokens{value: cost + 1 ether}(400e18, 400e18);
+
+        assertEq(address(token).balance, reserve);
+
+        assertTrue(token.graduated());
+        assertEq(token.totalSupply(), MAX_SUPPLY);
+        assertEq(token.remainingSupply(), 0);
+    }
+
+    function testMintPastTheCapReverts() public {
+        LinearBondingToken token = _deploy(MAX_SUPPLY, 0, false);
+        _buy(token, 600e18);
+
+        uint256 cost = token.calculateCost(401e18);
+        vm.prank(bob);
+        vm.expectRevert("Exceeds max supply");
+        token.mintTokens{value: cost}(401e18, 401e18);
+    }
+
+    function testBuyWithEthStopsAtTheCap() public {
+        LinearBondingToken token = _deploy(MAX_SUPPLY, 0, false);
+        _buy(token, 600e18);
+
+        uint256 cost = token.calculateCost(400e18);
+        uint256 balanceBefore = bob.balance;
+        vm.prank(bob);
+        token.buyWithEth{value: cost + 1 ether}(400e18);
+
+        assertTrue(token.graduated());
+        assertEq(token.totalSupply(), MAX_SUPPLY);
+        // Only the remaining supply was paid for
+        assertEq(balanceBefore - bob.balance, cost);
+
+        vm.prank(bob);
+        vm.expectRevert("Nothing left to mint");
+        token.buyWithEth{value: 1 ether}(0);
+    }
+
+    function testMintingStaysClosedAfterBurns() public {
+        LinearBondingToken token = _deploy(MAX_SUPPLY, 0, false);
+        _buy(token, MAX_SUPPLY);
+
+        vm.prank(bob);
+        token.burnTokens(100e18, 0);
+        assertEq(token.remainingSupply(), 0);
+
+        uint256 cost = token.calculateCost(1e18);
+        vm.prank(bob);
+        vm.expectRevert("Curve has graduated");
+        token.mintTokens{value: cost}(1e18, 1e18);
+    }
+
+    function testBurnsCanBeFrozenOnGraduation() public {
+        LinearBondingToken token = _deploy(MAX_SUPPLY, 0, true);
+        _buy(token, 600e18);
+
+        // Burns still work before graduation
+        vm.prank(bob);
+        token.burnTokens(100e18, 0);
+
+        _buy(token, 500e18);
+        assertTrue(token.graduated());
+
+        vm.prank(bob);
+        vm.expectRevert("Burns are frozen after graduation");
+        token.burnTokens(100e18, 0);
+
+        // Plain transfers are unaffected
+        vm.prank(bob);
+        token.transfer(address(this), 100e18);
+    }
+
+    function testReserveTargetBecomesTheSupplyThatReachesIt() public {
+        uint256 target = 5 ether;
+        LinearBondingToken token = _deploy(0, target, false);
+        uint256 cap = token.maxSupply();
+
+        assertEq(token.reserveTarget(), target);
+        assertGe(token.calculateCost(cap), target);
+        assertLt(token.calculateCost(cap - 1), target);
+
+        _buy(token, cap);
+        assertTrue(token.graduated());
+        assertGe(address(token).balance, target);
+    }
+
+    function testRejectsBothCaps() public {
+        vm.expectRevert("Set a max supply or a reserve target, not both");
+        _deploy(MAX_SUPPLY, 5 ether, false);
+    }
+}
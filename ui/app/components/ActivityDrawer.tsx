@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import { useTransactions } from "../hooks/useTransactions";
+import { getChain } from "../../lib/deployments";
+import { TRANSACTION_STATUS_LABELS, explorerTxUrl, type TransactionStatus } from "../../lib/transactions";
+
+const BADGE_CLASSES: Record<TransactionStatus, string> = {
+  pending: "badge-info",
+  confirmed: "badge-success",
+  failed: "badge-error",
+  replaced: "badge-warning",
+  dropped: "badge-warning",
+};
+
+export function ActivityDrawer() {
+  const { transactions, clear } = useTransactions();
+  const [open, setOpen] = useState(false);
+
+  const pendingCount = transactions.filter((tx) => tx.status === "pending").length;
+
+  return (
+    <>
+      <button className="btn btn-sm btn-ghost gap-2" onClick={() => setOpen(true)}>
+        Activity
+        {pendingCount > 0 && <span className="badge badge-info badge-sm">{pendingCount}</span>}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-40 flex justify-end">
+          <div className="absolute inset-0 bg-black/30" onClick={() => setOpen(false)}></div>
+          <div className="relative w-full max-w-sm h-full bg-base-100 shadow-xl p-6 overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold">Recent transactions</h2>
+              <div className="flex gap-2">
+                <button className="btn btn-xs btn-ghost" onClick={clear} disabled={transactions.length === pendingCount}>
+                  Clear
+                </button>
+                <button className="btn btn-xs btn-ghost" onClick={() => setOpen(false)}>
+                  ×
+                </button>
+              </div>
+            </div>
+
+            {transactions.length === 0 ? (
+              <div className="text-sm text-base-content/60">No transactions yet</div>
+            ) : (
+              <ul className="space-y-3">
+                {transactions.map((tx) => {
+                  const chain = getChain(tx.chainId);
+                  const url = explorerTxUrl(chain?.blockExplorers?.default.url, tx.hash);
+                  return (
+                    <li key={tx.hash} className="border border-base-300 rounded-lg p-3 text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="font-semibold">{tx.description}</span>
+                        <span className={`badge badge-sm ${BADGE_CLASSES[tx.status]}`}>
+                          {TRANSACTION_STATUS_LABELS[tx.status]}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-base-content/60 mt-1">
+                        <span>{new Date(tx.submittedAt).toLocaleString()}</span>
+                        <span>{chain?.name ?? `Chain ${tx.chainId}`}</span>
+                      </div>
+                      <div className="font-mono text-xs mt-1">
+                        {url ? (
+                          <a href={url} target="_blank" rel="noopener noreferrer" className="link">
+                            {tx.hash.slice(0, 10)}…{tx.hash.slice(-8)}
+                          </a>
+                        ) : (
+                          <span>{tx.hash.slice(0, 10)}…{tx.hash.slice(-8)}</span>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React from "react";
+import { useContractData } from "../hooks/useContractData";
+import { useTradePreview } from "../hooks/useTradePreview";
+import { CurvePlot, type CurveRange } from "./CurvePlot";
+import { formatEther } from "../../lib/format";
+
+export function BondingCurveChart() {
+  const { data, isLoading } = useContractData();
+  const { preview } = useTradePreview();
+
+  if (isLoading || !data) {
+    return (
+      <div className="card w-full bg-base-100 shadow">
+        <div className="card-body">
+          <h2 className="card-title">Bonding Curve</h2>
+          <div className="text-sm text-base-content/60">{isLoading ? "Loading..." : "No contract data available"}</div>
+        </div>
+      </div>
+    );
+  }
+
+  const supply = data.totalSupply;
+
+  // Supply interval the pending trade would move through
+  let range: CurveRange | null = null;
+  if (preview && preview.amount > BigInt(0)) {
+    range = preview.side === "buy"
+      ? { from: supply, to: supply + preview.amount, side: "buy" }
+      : { from: supply > preview.amount ? supply - preview.amount : BigInt(0), to: supply, side: "sell" };
+  }
+
+  return (
+    <div className="card w-full bg-base-100 shadow">
+      <div className="card-body">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="card-title">Bonding Curve</h2>
+            <p className="text-xs text-base-content/60">Block #{data.blockNumber.toString()}</p>
+          </div>
+          {range && (
+            <span className={`badge ${range.side === "buy" ? "badge-success" : "badge-error"}`}>
+              {range.side === "buy" ? "Buy" : "Sell"} preview: {formatEther(range.to - range.from)} {data.symbol}
+            </span>
+          )}
+        </div>
+
+        <CurvePlot
+          params={data.curve}
+          supply={supply}
+          symbol={data.symbol}
+          range={range}
+        />
+      </div>
+    </div>
+  );
+}
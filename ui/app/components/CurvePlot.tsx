@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import { WAD, priceAt, refundForBurn, tokensForEth, type CurveParams } from "../../lib/curve";
+import { formatEther } from "../../lib/format";
+
+// SVG viewBox size; the chart scales to the card width
+const WIDTH = 600;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+const SAMPLES = 64;
+
+const plotWidth = WIDTH - PADDING.left - PADDING.right;
+const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+// Supply range to draw: enough room past the current supply and any highlighted range
+const chartMaxSupply = (params: CurveParams, supply: bigint, rangeEnd: bigint) => {
+  const furthest = supply > rangeEnd ? supply : rangeEnd;
+  if (furthest > BigInt(0)) return (furthest * BigInt(3)) / BigInt(2);
+  // Empty curve: show roughly what the first 1 ETH would buy
+  const firstEth = tokensForEth(params, BigInt(0), WAD);
+  return firstEth > BigInt(0) ? firstEth : WAD;
+};
+
+export type CurveRange = {
+  from: bigint;
+  to: bigint;
+  side: "buy" | "sell";
+};
+
+type CurvePlotProps = {
+  params: CurveParams;
+  supply: bigint;
+  symbol: string;
+  range?: CurveRange | null;
+};
+
+/**
+ * Plots p(s) with a marker at `supply`, an optional shaded `range`, and price/reserve readouts on hover.
+ */
+export function CurvePlot({ params, supply, symbol, range }: CurvePlotProps) {
+  const [hoverSupply, setHoverSupply] = useState<bigint | null>(null);
+
+  const maxSupply = chartMaxSupply(params, supply, range ? range.to : BigInt(0));
+  const maxPrice = priceAt(params, maxSupply);
+
+  const x = (s: bigint) => PADDING.left + (Number(s) / Number(maxSupply)) * plotWidth;
+  const y = (p: bigint) => PADDING.top + plotHeight - (maxPrice > BigInt(0) ? (Number(p) / Number(maxPrice)) * plotHeight : 0);
+  const baseline = PADDING.top + plotHeight;
+
+  const curvePoints: string[] = [];
+  for (let i = 0; i <= SAMPLES; i++) {
+    const s = (maxSupply * BigInt(i)) / BigInt(SAMPLES);
+    curvePoints.push(`${x(s)},${y(priceAt(params, s))}`);
+  }
+
+  let shadedArea: string | null = null;
+  if (range) {
+    const points = [`${x(range.from)},${baseline}`];
+    for (let i = 0; i <= SAMPLES; i++) {
+      const s = range.from + ((range.to - range.from) * BigInt(i)) / BigInt(SAMPLES);
+      points.push(`${x(s)},${y(priceAt(params, s))}`);
+    }
+    points.push(`${x(range.to)},${baseline}`);
+    shadedArea = points.join(" ");
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const fraction = Math.min(1, Math.max(0, (svgX - PADDING.left) / plotWidth));
+    setHoverSupply((maxSupply * BigInt(Math.round(fraction * 1e6))) / BigInt(1e6));
+  };
+
+  // Reserve at a supply is the area under the curve from zero, i.e. the refund for burning everything
+  const reserveAt = (s: bigint) => refundForBurn(params, s, s);
+  const shown = hoverSupply ?? supply;
+
+  return (
+    <>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverSupply(null)}
+      >
+        <line x1={PADDING.left} y1={baseline} x2={WIDTH - PADDING.right} y2={baseline} stroke="currentColor" strokeOpacity={0.2} />
+
+        {shadedArea && (
+          <polygon
+            points={shadedArea}
+            fill={range?.side === "buy" ? "#35A35A" : "#FF3FAE"}
+            fillOpacity={0.25}
+          />
+        )}
+
+        <polyline points={curvePoints.join(" ")} fill="none" stroke="#4EC9C0" strokeWidth={3} />
+
+        {/* Current supply marker */}
+        <line x1={x(supply)} y1={PADDING.top} x2={x(supply)} y2={baseline} stroke="currentColor" strokeOpacity={0.4} strokeDasharray="4 4" />
+        <circle cx={x(supply)} cy={y(priceAt(params, supply))} r={6} fill="#C6B8FF" stroke="#1F1D26" strokeWidth={1.5} />
+        <text x={x(supply)} y={HEIGHT - 8} fontSize={12} textAnchor="middle" fill="currentColor" fillOpacity={0.6}>
+          current supply
+        </text>
+
+        {hoverSupply !== null && (
+          <>
+            <line x1={x(hoverSupply)} y1={PADDING.top} x2={x(hoverSupply)} y2={baseline} stroke="currentColor" strokeOpacity={0.2} />
+            <circle cx={x(hoverSupply)} cy={y(priceAt(params, hoverSupply))} r={4} fill="#FFBD48" />
+          </>
+        )}
+      </svg>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-base-content/60">{hoverSupply !== null ? "Supply" : "Current Supply"}</p>
+          <p className="font-medium">{formatEther(shown)} {symbol}</p>
+        </div>
+        <div>
+          <p className="text-base-content/60">Price</p>
+          <p className="font-medium">{formatEther(priceAt(params, shown))} ETH</p>
+        </div>
+        <div>
+          <p className="text-base-content/60">Reserve</p>
+          <p className="font-medium">{formatEther(reserveAt(shown))} ETH</p>
+        </div>
+      </div>
+    </>
+  );
+}
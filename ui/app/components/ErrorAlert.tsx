@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import type { DecodedError } from "../../lib/errors";
+
+type ErrorAlertProps = {
+  error: DecodedError;
+  onDismiss: () => void;
+};
+
+export function ErrorAlert({ error, onDismiss }: ErrorAlertProps) {
+  return (
+    <div className="alert alert-error mb-4 flex flex-col items-stretch gap-2">
+      <div className="flex justify-between items-start gap-2">
+        <span>{error.message}</span>
+        <button className="btn btn-sm btn-ghost" onClick={onDismiss}>×</button>
+      </div>
+      {error.details && (
+        <details className="text-xs">
+          <summary className="cursor-pointer">Details</summary>
+          <pre className="mt-2 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{error.details}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
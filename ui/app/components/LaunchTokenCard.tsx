@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { parseEther } from "viem";
+import { useChainId } from "wagmi";
+import { useTokenFactory } from "../hooks/useTokenFactory";
+import { CurvePlot } from "./CurvePlot";
+import { WAD, priceAt, tokensForEth } from "../../lib/curve";
+import { getChain } from "../../lib/deployments";
+import { formatEther } from "../../lib/format";
+import { MAX_FEE_BPS, maxCreatorFeeBps } from "../../lib/fees";
+import TVStaticGlitch from "./TVStaticGlitch";
+import { ErrorAlert } from "./ErrorAlert";
+
+// Same defaults as contracts/script/DeployLinearBondingToken.s.sol
+const DEFAULT_INITIAL_PRICE = "0.00001";
+const DEFAULT_SLOPE = "0.000001";
+const DEFAULT_CREATOR_FEE = "0";
+
+// Parses a decimal ETH string to wei, or null when it isn't a valid amount
+const parseWei = (value: string) => {
+  try {
+    return value ? parseEther(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Parses a fee percentage to basis points, or null unless it's between 0 and `maxBps`
+const parseFeeBps = (value: string, maxBps: bigint) => {
+  if (!/^\d*\.?\d*$/.test(value) || value === "" || value === ".") return null;
+  const bps = BigInt(Math.round(parseFloat(value) * 100));
+  return bps <= maxBps ? bps : null;
+};
+
+const formatBpsPercent = (bps: bigint) => `${Number(bps) / 100}%`;
+
+export function LaunchTokenCard() {
+  const router = useRouter();
+  const chainId = useChainId();
+  const { launchToken, launchState, error, resetState, protocolFeeBps, protocolFeeError, hasFactory, isConnected } = useTokenFactory();
+
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [initialPrice, setInitialPrice] = useState(DEFAULT_INITIAL_PRICE);
+  const [slope, setSlope] = useState(DEFAULT_SLOPE);
+  const [creatorFee, setCreatorFee] = useState(DEFAULT_CREATOR_FEE);
+
+  const initialPriceWei = parseWei(initialPrice);
+  const slopeWei = parseWei(slope);
+  // The factory's protocol fee and the creator fee share the MAX_FEE_BPS cap; until the protocol fee
+  // is known the creator fee can't be checked
+  const creatorFeeBps = protocolFeeBps !== undefined ? parseFeeBps(creatorFee, maxCreatorFeeBps(protocolFeeBps)) : null;
+  // The factory rejects slopes below 2 wei
+  const params = initialPriceWei !== null && slopeWei !== null && slopeWei > BigInt(1)
+    ? { initialPrice: initialPriceWei, slope: slopeWei }
+    : null;
+
+  const isLoading = launchState === "loading";
+  const canLaunch = isConnected && !isLoading && !!params && creatorFeeBps !== null && name.trim() !== "" && symbol.trim() !== "";
+
+  // What the first 1 ETH of buys would do to the new curve
+  const firstEthTokens = params ? tokensForEth(params, BigInt(0), WAD) : BigInt(0);
+
+  const handleLaunch = async () => {
+    if (!isConnected) {
+      alert("Please connect your wallet first");
+      return;
+    }
+    if (!params || creatorFeeBps === null) return;
+
+    try {
+      const token = await launchToken({ name: name.trim(), symbol: symbol.trim(), ...params, creatorFeeBps });
+      if (token) router.push(`/token/${token}`);
+    } catch (err) {
+      console.error("Launch failed:", err);
+    }
+  };
+
+  return (
+    <div className="card w-full bg-base-100 shadow relative">
+      <TVStaticGlitch isActive={isLoading} />
+      <div className="card-body">
+        <h2 className="card-title">Launch a Token</h2>
+        <p className="text-sm text-base-content/60">Deploy a new linear bonding curve from your wallet</p>
+
+        {error && <ErrorAlert error={error} onDismiss={resetState} />}
+        {!hasFactory && (
+          <div className="alert alert-warning mb-4 text-sm">
+            <span>There is no token factory on {getChain(chainId)?.name ?? `chain ${chainId}`}, so tokens can&apos;t be launched on this network. Switch to a network with one to launch.</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Name</span>
+            </div>
+            <input
+              type="text"
+              placeholder="Not A Token"
+              className="input input-bordered w-full"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Symbol</span>
+            </div>
+            <input
+              type="text"
+              placeholder="NAT"
+              className="input input-bordered w-full"
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Initial Price (ETH)</span>
+            </div>
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`input input-bordered w-full ${initialPriceWei === null ? 'input-error' : ''}`}
+              value={initialPrice}
+              onChange={(e) => setInitialPrice(e.target.value)}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Slope (ETH per token)</span>
+            </div>
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`input input-bordered w-full ${slopeWei === null || slopeWei <= BigInt(1) ? 'input-error' : ''}`}
+              value={slope}
+              onChange={(e) => setSlope(e.target.value)}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Creator Fee (%)</span>
+              <span className="label-text-alt">Paid to you on every buy and sell</span>
+            </div>
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`input input-bordered w-full ${creatorFeeBps === null && protocolFeeBps !== undefined ? 'input-error' : ''}`}
+              value={creatorFee}
+              onChange={(e) => setCreatorFee(e.target.value)}
+              disabled={isLoading}
+            />
+            <div className="label">
+              <span className="label-text-alt text-base-content/60">
+                {protocolFeeBps !== undefined
+                  ? `Together with the ${formatBpsPercent(protocolFeeBps)} protocol fee, at most ${formatBpsPercent(MAX_FEE_BPS)}, so up to ${formatBpsPercent(maxCreatorFeeBps(protocolFeeBps))}`
+                  : !hasFactory
+                    ? "No factory on this network"
+                    : protocolFeeError
+                      ? "Couldn't read the factory's protocol fee"
+                      : "Loading the protocol fee..."}
+              </span>
+            </div>
+          </label>
+        </div>
+
+        {params ? (
+          <>
+            <CurvePlot
+              params={params}
+              supply={BigInt(0)}
+              symbol={symbol || "TOKEN"}
+              range={firstEthTokens > BigInt(0) ? { from: BigInt(0), to: firstEthTokens, side: "buy" } : null}
+            />
+            <div className="text-sm text-base-content/60">
+              The first 1 ETH buys {formatEther(firstEthTokens)} {symbol || "tokens"} and moves the price to{" "}
+              {formatEther(priceAt(params, firstEthTokens))} ETH.
+            </div>
+          </>
+        ) : (
+          <div className="text-sm text-warning">Enter a valid initial price and a slope of at least 2 wei to preview the curve</div>
+        )}
+
+        <button
+          className={`btn w-full ${canLaunch ? 'btn-primary' : 'btn-disabled'}`}
+          onClick={handleLaunch}
+          disabled={!canLaunch}
+        >
+          {isLoading ? (
+            <>
+              <span className="loading loading-spinner loading-sm"></span>
+              Deploying...
+            </>
+          ) : (
+            "Launch Token"
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
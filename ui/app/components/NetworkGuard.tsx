@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import { useAccount, useSwitchChain } from "wagmi";
+import { getChain, getDefaultChain, getDeployment, supportedChains } from "../../lib/deployments";
+
+// Warns when the connected wallet is on a chain the app has no contracts for
+export function NetworkGuard() {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (!isConnected || chainId === undefined || getDeployment(chainId)) return null;
+
+  const chainName = getChain(chainId)?.name ?? `chain ${chainId}`;
+  const targets = supportedChains.filter((chain) => getDeployment(chain.id));
+  const fallback = targets.length > 0 ? targets : [getDefaultChain()];
+
+  return (
+    <div className="alert alert-warning max-w-5xl mx-auto mb-6">
+      <span>
+        Your wallet is connected to {chainName}, which has no bonding curve deployment. Switch networks to trade.
+      </span>
+      <div className="flex gap-2">
+        {fallback.map((chain) => (
+          <button
+            key={chain.id}
+            className="btn btn-sm"
+            onClick={() => switchChain({ chainId: chain.id })}
+            disabled={isPending}
+          >
+            Switch to {chain.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,29 @@
 "use client";
 
 import React from "react";
+import { useAccount } from "wagmi";
 import { useUserBalance } from "../hooks/useContractData";
 import { useContractData } from "../hooks/useContractData";
-import { formatNumber } from "../../lib/format";
+import { useTradeHistory } from "../hooks/useTradeHistory";
+import { WAD } from "../../lib/curve";
+import { quoteTrade } from "../../lib/quote";
+import { computePosition, heldPosition, unrealizedPnl } from "../../lib/portfolio";
+import { formatEther } from "../../lib/format";
 
-export function Portfolio() {
-  const { balance: userBalance, isLoading: balanceLoading } = useUserBalance();
+// Signed ETH amount with an explicit sign, e.g. "+0.5" or "-0.25"
+const formatPnl = (wei: bigint) => `${wei < BigInt(0) ? "-" : "+"}${formatEther(wei < BigInt(0) ? -wei : wei)}`;
+
+const pnlClass = (wei: bigint) => (wei > BigInt(0) ? "text-success" : wei < BigInt(0) ? "text-error" : "");
+
+type PortfolioProps = {
+  baseLabel: string;
+};
+
+export function Portfolio({ baseLabel }: PortfolioProps) {
+  const { address } = useAccount();
+  const { balance: balanceWei, isLoading: balanceLoading } = useUserBalance();
   const { data: contractData, isLoading: contractLoading } = useContractData();
+  const { trades, isLoading: historyLoading } = useTradeHistory();
 
   const isLoading = balanceLoading || contractLoading;
 
@@ -18,11 +34,11 @@ export function Portfolio() {
           <h2 className="card-title">Portfolio</h2>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <p className="text-base-content/60">NAT Balance</p>
+              <p className="text-base-content/60">{baseLabel} Balance</p>
               <p className="font-medium">...</p>
             </div>
             <div>
-              <p className="text-base-content/60">Net Worth</p>
+              <p className="text-base-content/60">Liquidation Value</p>
               <p className="font-medium">...</p>
             </div>
           </div>
@@ -31,7 +47,7 @@ export function Portfolio() {
     );
   }
 
-  if (!userBalance || !contractData) {
+  if (!address || balanceWei === undefined || !contractData) {
     return (
       <div className="card w-full bg-base-100 shadow">
         <div className="card-body">
@@ -44,23 +60,64 @@ export function Portfolio() {
     );
   }
 
-  // Calculate net worth: NAT balance * current price
-  const natBalance = parseFloat(userBalance);
-  const currentPrice = parseFloat(contractData.currentPrice.toString()) / 1e18; // Convert from wei
-  const netWorth = natBalance * currentPrice;
+  const params = contractData.curve;
+
+  // Spot value prices every token at the current price; selling actually walks down the curve and
+  // pays fees, so the liquidation value is what quoteBurn(balance) would net
+  const spotValue = (balanceWei * contractData.currentPrice) / WAD;
+  const liquidationValue = quoteTrade(params, contractData.totalSupply, "sell", "exactIn", balanceWei, contractData.fees)?.eth ?? BigInt(0);
+
+  const position = trades ? computePosition(trades, address) : null;
+  // PnL only covers tokens with a recorded cost that are still in the wallet, valued on their own
+  const held = position ? heldPosition(position, balanceWei) : null;
+  const heldValue = held
+    ? held.amount === balanceWei
+      ? liquidationValue
+      : quoteTrade(params, contractData.totalSupply, "sell", "exactIn", held.amount, contractData.fees)?.eth ?? BigInt(0)
+    : null;
+  const unrealized = held && heldValue !== null ? unrealizedPnl(held, heldValue) : null;
 
   return (
     <div className="card w-full bg-base-100 shadow">
       <div className="card-body">
         <h2 className="card-title">Portfolio</h2>
-        <div className="grid grid-cols-2 gap-4 text-sm">
+        <p className="text-sm text-base-content/60">Valued at block #{contractData.blockNumber.toString()}</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-base-content/60">{baseLabel} Balance</p>
+            <p className="font-medium">{formatEther(balanceWei)} {baseLabel}</p>
+          </div>
+          <div>
+            <p className="text-base-content/60">Spot Value</p>
+            <p className="font-medium">{formatEther(spotValue)} ETH</p>
+          </div>
+          <div>
+            <p className="text-base-content/60">Liquidation Value</p>
+            <p className="font-medium">{formatEther(liquidationValue)} ETH</p>
+          </div>
+          <div>
+            <p className="text-base-content/60">Avg Cost</p>
+            <p className="font-medium">
+              {position ? `${formatEther(position.averageCost, 10)} ETH` : historyLoading ? "..." : "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-base-content/60">Cost Basis</p>
+            <p className="font-medium">
+              {position ? `${formatEther(position.costBasis)} ETH` : historyLoading ? "..." : "—"}
+            </p>
+          </div>
           <div>
-            <p className="text-base-content/60">NAT Balance</p>
-            <p className="font-medium">{formatNumber(natBalance)} NAT</p>
+            <p className="text-base-content/60">Realized PnL</p>
+            <p className={`font-medium ${position ? pnlClass(position.realizedPnl) : ""}`}>
+              {position ? `${formatPnl(position.realizedPnl)} ETH` : historyLoading ? "..." : "—"}
+            </p>
           </div>
           <div>
-            <p className="text-base-content/60">Net Worth</p>
-            <p className="font-medium">{formatNumber(netWorth)} ETH</p>
+            <p className="text-base-content/60">Unrealized PnL</p>
+            <p className={`font-medium ${unrealized !== null ? pnlClass(unrealized) : ""}`}>
+              {unrealized !== null ? `${formatPnl(unrealized)} ETH` : historyLoading ? "..." : "—"}
+            </p>
           </div>
         </div>
       </div>
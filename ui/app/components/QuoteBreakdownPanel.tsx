@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { formatEther } from "../../lib/format";
+import { formatBps, type PriceImpactLevel, type QuoteBreakdown } from "../../lib/quote";
+
+const IMPACT_CLASSES: Record<PriceImpactLevel, string> = {
+  none: "",
+  notice: "text-info",
+  warning: "text-warning",
+  danger: "text-error",
+};
+
+type QuoteBreakdownPanelProps = {
+  breakdown: QuoteBreakdown;
+  level: PriceImpactLevel;
+  baseLabel: string;
+  quoteLabel: string;
+  blockNumber?: bigint; // block the curve state was read at
+};
+
+export function QuoteBreakdownPanel({ breakdown, level, baseLabel, quoteLabel, blockNumber }: QuoteBreakdownPanelProps) {
+  const unit = `${quoteLabel}/${baseLabel}`;
+
+  return (
+    <div className="rounded-lg bg-base-200 p-3">
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div>
+          <p className="text-base-content/60">Spot price before</p>
+          <p className="font-medium">{formatEther(breakdown.spotBefore, 18)} {unit}</p>
+        </div>
+        <div>
+          <p className="text-base-content/60">Spot price after</p>
+          <p className="font-medium">{formatEther(breakdown.spotAfter, 18)} {unit}</p>
+        </div>
+        <div>
+          <p className="text-base-content/60">Average price</p>
+          <p className="font-medium">{formatEther(breakdown.averagePrice, 18)} {unit}</p>
+        </div>
+        <div>
+          <p className="text-base-content/60">Price impact</p>
+          <p className={`font-medium ${IMPACT_CLASSES[level]}`}>
+            {breakdown.priceImpactBps !== null ? formatBps(breakdown.priceImpactBps) : "—"}
+          </p>
+        </div>
+      </div>
+      {blockNumber !== undefined && (
+        <p className="text-xs text-base-content/60 mt-2">Quoted at block #{blockNumber.toString()}</p>
+      )}
+    </div>
+  );
+}
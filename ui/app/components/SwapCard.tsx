@@ -2,62 +2,131 @@
 
 import React, { useState, useEffect } from "react";
 import { useContractWrite } from "../hooks/useContractWrite";
-import { useUserBalance, useUserEthBalance } from "../hooks/useContractData";
-import { formatNumber } from "../../lib/format";
+import { useContractData, useUserBalance, useUserEthBalance } from "../hooks/useContractData";
+import { useTradePreview } from "../hooks/useTradePreview";
+import { useNetworkFee } from "../hooks/useNetworkFee";
+import { formatEther, formatWei, parseAmount } from "../../lib/format";
+import { addSlippage } from "../../lib/slippage";
+import { DEFAULT_DEADLINE_MINUTES, SUGGESTED_DEADLINE_MINUTES, deadlineSeconds } from "../../lib/deadline";
+import { supportsDeadline } from "../../lib/legacy";
+import { maxSpendable } from "../../lib/gas";
+import { CURVE_LABELS, curveType, isExactCurve } from "../../lib/curve";
+import { burnsFrozen, remainingSupply } from "../../lib/graduation";
+import {
+  DEFAULT_PRICE_IMPACT_THRESHOLDS,
+  capBuyQuote,
+  formatBps,
+  priceImpactLevel,
+  quoteBreakdown,
+  quoteTrade,
+  type PriceImpactThresholds,
+  type TradeMode,
+} from "../../lib/quote";
 import TVStaticGlitch from "./TVStaticGlitch";
+import { ErrorAlert } from "./ErrorAlert";
+import { TokenAmountInput } from "./TokenAmountInput";
+import { QuoteBreakdownPanel } from "./QuoteBreakdownPanel";
 
 type SwapCardProps = {
   baseLabel: string;
   quoteLabel: string;
+  impactThresholds?: PriceImpactThresholds; // basis points at which price impact warnings escalate
 };
 
-export function SwapCard({ baseLabel, quoteLabel }: SwapCardProps) {
+// Typed to confirm a trade past the danger threshold
+const DANGER_CONFIRMATION = "confirm";
+
+export function SwapCard({ baseLabel, quoteLabel, impactThresholds = DEFAULT_PRICE_IMPACT_THRESHOLDS }: SwapCardProps) {
+  const { data: contractData } = useContractData();
   const { balance: userBalance } = useUserBalance();
   const { ethBalance: userEthBalance } = useUserEthBalance();
   const {
     buyTokens,
     sellTokens,
-    calculateTokensForEth,
-    calculateEthForTokens,
-    calculateRateForOneEth,
     buyState,
     sellState,
     error,
     resetStates,
     isConnected,
   } = useContractWrite();
+  const { setPreview } = useTradePreview();
 
   const [ethAmount, setEthAmount] = useState("");
   const [tokenAmount, setTokenAmount] = useState("");
-  const [estimatedTokens, setEstimatedTokens] = useState("");
-  const [estimatedEth, setEstimatedEth] = useState("");
-  const [rateForOneEth, setRateForOneEth] = useState("");
   const [isBuyMode, setIsBuyMode] = useState(true);
+  const [mode, setMode] = useState<TradeMode>("exactIn");
   const [slippagePct, setSlippagePct] = useState<string>("1.0"); // default 1%
+  const [deadlineMinutes, setDeadlineMinutes] = useState(DEFAULT_DEADLINE_MINUTES); // empty for no deadline
+  const [confirming, setConfirming] = useState(false);
+  const [confirmText, setConfirmText] = useState("");
+
+  // Parsed straight to wei; null while the input is empty or malformed
+  const ethWei = parseAmount(ethAmount);
+  const tokenWei = parseAmount(tokenAmount);
+
+  // The trader types the ETH side for exact-in buys and exact-out sells, the token side otherwise
+  const editsEth = isBuyMode === (mode === "exactIn");
+
+  // Quote the opposite field from the same block-pinned snapshot the breakdown uses
+  const params = contractData?.curve ?? null;
+  const typedAmount = editsEth ? ethWei : tokenWei;
+  const uncappedQuote = params && contractData && typedAmount
+    ? quoteTrade(params, contractData.totalSupply, isBuyMode ? "buy" : "sell", mode, typedAmount, contractData.fees)
+    : null;
 
-  // Calculate rate for 1 ETH (this should be constant)
+  // A capped curve only mints up to its remaining supply, and may freeze burns once it graduates
+  const graduation = contractData?.graduation ?? null;
+  const capacity = contractData ? remainingSupply(graduation, contractData.totalSupply) : null;
+  const mintingClosed = capacity === BigInt(0);
+  const sellsFrozen = burnsFrozen(graduation);
+  const quote = params && contractData && uncappedQuote && isBuyMode && capacity !== null
+    ? capBuyQuote(params, contractData.totalSupply, uncappedQuote, capacity, contractData.fees)
+    : uncappedQuote;
+  const isCapped = !!quote && quote !== uncappedQuote;
+  const estimatedTokens = editsEth ? quote?.tokens ?? null : null;
+  const estimatedEth = editsEth ? null : quote?.eth ?? null;
+
+  const tradeEth = quote?.eth ?? null;
+  const tradeTokens = quote?.tokens ?? null;
+
+  // Share the pending trade with the curve chart
   useEffect(() => {
-    const calculateRate = async () => {
-      const rate = await calculateRateForOneEth();
-      setRateForOneEth(rate);
-    };
-    calculateRate();
-  }, [calculateRateForOneEth]);
-
-  // Calculate estimated output when input changes
+    const amount = tradeTokens ?? BigInt(0);
+    setPreview(amount > BigInt(0) ? { side: isBuyMode ? "buy" : "sell", amount } : null);
+  }, [isBuyMode, tradeTokens, setPreview]);
+
+  const { fee: networkFee, gasReserve } = useNetworkFee(isBuyMode ? "buy" : "sell", mode, tradeTokens, tradeEth);
+  // ETH the wallet needs for the whole transaction: what a buy sends as value, plus the fee either way
+  const sentEth = isBuyMode && tradeEth ? (mode === "exactOut" ? addSlippage(tradeEth, slippagePct) : tradeEth) : BigInt(0);
+  const requiredEth = networkFee ? sentEth + networkFee.fee : null;
+  const shortOfGas = requiredEth !== null && userEthBalance !== undefined && requiredEth > userEthBalance;
+
+  // Priced on the curve's side of the trade, so fees don't show up as price impact
+  const breakdown = params && contractData && quote && tradeTokens && tradeEth
+    ? quoteBreakdown(
+        params,
+        contractData.totalSupply,
+        isBuyMode ? "buy" : "sell",
+        tradeTokens,
+        quote.curveEth,
+      )
+    : null;
+  const impactLevel = breakdown ? priceImpactLevel(breakdown.priceImpactBps, impactThresholds) : "none";
+  const needsConfirmation = impactLevel === "warning" || impactLevel === "danger";
+
+  // Any change to the trade invalidates an earlier confirmation
   useEffect(() => {
-    const calculateOutput = async () => {
-      if (isBuyMode && ethAmount) {
-        const tokens = await calculateTokensForEth(ethAmount);
-        setEstimatedTokens(tokens);
-      } else if (!isBuyMode && tokenAmount) {
-        const eth = await calculateEthForTokens(tokenAmount);
-        setEstimatedEth(eth);
-      }
-    };
+    setConfirming(false);
+    setConfirmText("");
+  }, [ethAmount, tokenAmount, isBuyMode, mode]);
+
+  const clearAmounts = () => {
+    setEthAmount("");
+    setTokenAmount("");
+  };
 
-    calculateOutput();
-  }, [ethAmount, tokenAmount, isBuyMode, calculateTokensForEth, calculateEthForTokens]);
+  // Tokens deployed before deadlines existed can't take one, so the setting is ignored for them
+  const deadlineEnabled = !!contractData && supportsDeadline(contractData.entryPoints);
 
   const handleSwap = async () => {
     if (!isConnected) {
@@ -65,25 +134,89 @@ export function SwapCard({ baseLabel, quoteLabel }: SwapCardProps) {
       return;
     }
 
+    const amount = typedAmount;
+    if (!amount) return;
+
+    // Large trades take a second click, so the impact warning gets read first
+    if (needsConfirmation && !confirming) {
+      setConfirming(true);
+      return;
+    }
+    setConfirming(false);
+
     try {
       if (isBuyMode) {
-        await buyTokens(ethAmount, slippagePct);
-        setEthAmount("");
-        setEstimatedTokens("");
+        await buyTokens(amount, slippagePct, mode, deadlineEnabled ? deadlineMinutes : "");
       } else {
-        await sellTokens(tokenAmount, "0"); // No slippage protection for now
-        setTokenAmount("");
-        setEstimatedEth("");
+        await sellTokens(amount, slippagePct, mode, deadlineEnabled ? deadlineMinutes : "");
       }
+      clearAmounts();
     } catch (err) {
       console.error("Transaction failed:", err);
     }
   };
 
   const isTransactionLoading = buyState === "loading" || sellState === "loading";
-  const canSwap = isConnected && !isTransactionLoading && 
-    ((isBuyMode && ethAmount && parseFloat(ethAmount) > 0) || 
-     (!isBuyMode && tokenAmount && parseFloat(tokenAmount) > 0));
+  const hasInvalidDeadline = deadlineEnabled && deadlineMinutes !== "" && deadlineSeconds(deadlineMinutes) === null;
+  const canSwap = isConnected && !isTransactionLoading && !!tradeEth && !!tradeTokens && !(isBuyMode ? mintingClosed : sellsFrozen) && !hasInvalidDeadline;
+
+  const ethField = (
+    <label className="form-control w-full">
+      <div className="label">
+        <span className="label-text">{isBuyMode ? "From" : "To"} ({quoteLabel})</span>
+        {isBuyMode && !!userEthBalance && (
+          <span className="label-text-alt text-primary">
+            Balance: {formatEther(userEthBalance)} {quoteLabel}
+          </span>
+        )}
+      </div>
+      {editsEth ? (
+        <TokenAmountInput
+          value={ethAmount}
+          onChange={setEthAmount}
+          max={isBuyMode && userEthBalance !== undefined && gasReserve !== undefined ? maxSpendable(userEthBalance, gasReserve) : undefined}
+          disabled={isTransactionLoading}
+        />
+      ) : (
+        <input
+          type="text"
+          placeholder="0.0"
+          className="input input-bordered w-full"
+          value={estimatedEth !== null ? formatEther(estimatedEth, 18) : ""}
+          readOnly
+        />
+      )}
+    </label>
+  );
+
+  const tokenField = (
+    <label className="form-control w-full">
+      <div className="label">
+        <span className="label-text">{isBuyMode ? "To" : "From"} ({baseLabel})</span>
+        {!isBuyMode && !!userBalance && (
+          <span className="label-text-alt text-primary">
+            Balance: {formatEther(userBalance)} {baseLabel}
+          </span>
+        )}
+      </div>
+      {editsEth ? (
+        <input
+          type="text"
+          placeholder="0.0"
+          className="input input-bordered w-full"
+          value={estimatedTokens !== null ? formatEther(estimatedTokens, 18) : ""}
+          readOnly
+        />
+      ) : (
+        <TokenAmountInput
+          value={tokenAmount}
+          onChange={setTokenAmount}
+          max={isBuyMode ? undefined : userBalance}
+          disabled={isTransactionLoading}
+        />
+      )}
+    </label>
+  );
 
   return (
     <div className="card w-full max-w-xl bg-base-100 shadow relative">
@@ -96,8 +229,7 @@ export function SwapCard({ baseLabel, quoteLabel }: SwapCardProps) {
               className={`btn btn-sm ${isBuyMode ? 'btn-primary' : 'btn-ghost'}`}
               onClick={() => {
                 setIsBuyMode(true);
-                setTokenAmount("");
-                setEstimatedEth("");
+                clearAmounts();
                 resetStates();
               }}
             >
@@ -107,14 +239,9 @@ export function SwapCard({ baseLabel, quoteLabel }: SwapCardProps) {
               className={`btn btn-sm ${!isBuyMode ? 'btn-primary' : 'btn-ghost'}`}
               onClick={() => {
                 setIsBuyMode(false);
-                setEthAmount("");
-                setEstimatedTokens("");
-                // Pre-fill with user's NAT balance
-                if (userBalance && parseFloat(userBalance) > 0) {
-                  setTokenAmount(userBalance);
-                } else {
-                  setTokenAmount("");
-                }
+                clearAmounts();
+                // Pre-fill with user's exact token balance
+                if (mode === "exactIn") setTokenAmount(userBalance ? formatEther(userBalance, 18) : "");
                 resetStates();
               }}
             >
@@ -123,148 +250,213 @@ export function SwapCard({ baseLabel, quoteLabel }: SwapCardProps) {
           </div>
         </div>
 
-        {error && (
-          <div className="alert alert-error mb-4">
-            <span>{error}</span>
-            <button className="btn btn-sm btn-ghost" onClick={resetStates}>×</button>
-          </div>
-        )}
+        {error && <ErrorAlert error={error} onDismiss={resetStates} />}
 
-        {(buyState === "success" || sellState === "success") && (
-          <div className="alert alert-success mb-4">
-            <span>Transaction successful!</span>
-            <button className="btn btn-sm btn-ghost" onClick={resetStates}>×</button>
+        {graduation?.graduated && (
+          <div className="alert alert-success text-sm">
+            <span>
+              This curve has graduated: minting is closed
+              {graduation.freezeBurns ? " and sells are frozen." : ", but you can still sell."}
+            </span>
           </div>
         )}
 
         <div className="space-y-4">
+          <div className="flex justify-end">
+            <div className="join">
+              <button
+                className={`btn btn-xs join-item ${mode === "exactIn" ? "btn-active" : ""}`}
+                onClick={() => {
+                  setMode("exactIn");
+                  clearAmounts();
+                }}
+              >
+                Exact in
+              </button>
+              <button
+                className={`btn btn-xs join-item ${mode === "exactOut" ? "btn-active" : ""}`}
+                onClick={() => {
+                  setMode("exactOut");
+                  clearAmounts();
+                }}
+              >
+                Exact out
+              </button>
+            </div>
+          </div>
+
           {isBuyMode ? (
             <>
-              <label className="form-control w-full">
-                <div className="label">
-                  <span className="label-text">From ({quoteLabel})</span>
-                  {userEthBalance && parseFloat(userEthBalance) > 0 && (
-                    <span className="label-text-alt text-primary">
-                      Balance: {formatNumber(parseFloat(userEthBalance))} {quoteLabel}
-                    </span>
-                  )}
-                </div>
-                <div className="flex gap-2">
-                  <input
-                    type="number"
-                    placeholder="0.0"
-                    className="input input-bordered flex-1"
-                    value={ethAmount}
-                    onChange={(e) => setEthAmount(e.target.value)}
-                    disabled={isTransactionLoading}
-                  />
-                  {userEthBalance && parseFloat(userEthBalance) > 0 && (
-                    <button
-                      type="button"
-                      className="btn btn-outline btn-sm"
-                      onClick={() => setEthAmount(userEthBalance)}
-                      disabled={isTransactionLoading}
-                    >
-                      Max
-                    </button>
-                  )}
-                </div>
-              </label>
-              <label className="form-control w-full">
-                <div className="label">
-                  <span className="label-text">To ({baseLabel})</span>
-                </div>
-                <input
-                  type="text"
-                  placeholder="0.0"
-                  className="input input-bordered w-full"
-                  value={estimatedTokens ? formatNumber(parseFloat(estimatedTokens)) : ""}
-                  readOnly
-                />
-              </label>
-
-              <label className="form-control w-full">
-                <div className="label">
-                  <span className="label-text">Slippage (%)</span>
-                  <span className="label-text-alt">Recommended: 1.0</span>
-                </div>
-                <input
-                  type="number"
-                  step="0.1"
-                  min="0"
-                  placeholder="1.0"
-                  className="input input-bordered w-full"
-                  value={slippagePct}
-                  onChange={(e) => setSlippagePct(e.target.value)}
-                  disabled={isTransactionLoading}
-                />
-              </label>
+              {ethField}
+              {tokenField}
             </>
           ) : (
             <>
-              <label className="form-control w-full">
-                <div className="label">
-                  <span className="label-text">From ({baseLabel})</span>
-                  {userBalance && parseFloat(userBalance) > 0 && (
-                    <span className="label-text-alt text-primary">
-                      Balance: {formatNumber(parseFloat(userBalance))} {baseLabel}
-                    </span>
-                  )}
+              {tokenField}
+              {ethField}
+            </>
+          )}
+
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Slippage (%)</span>
+              <span className="label-text-alt">Recommended: 1.0</span>
+            </div>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              placeholder="1.0"
+              className="input input-bordered w-full"
+              value={slippagePct}
+              onChange={(e) => setSlippagePct(e.target.value)}
+              disabled={isTransactionLoading}
+            />
+          </label>
+
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Transaction Deadline (minutes)</span>
+              <span className="label-text-alt">Leave empty for none</span>
+            </div>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder={deadlineEnabled ? `e.g. ${SUGGESTED_DEADLINE_MINUTES}` : "Not supported"}
+              className={`input input-bordered w-full ${hasInvalidDeadline ? 'input-error' : ''}`}
+              value={deadlineEnabled ? deadlineMinutes : ""}
+              onChange={(e) => setDeadlineMinutes(e.target.value)}
+              disabled={isTransactionLoading || !deadlineEnabled}
+            />
+            <div className="label">
+              <span className="label-text-alt text-base-content/60">
+                {deadlineEnabled
+                  ? "The trade reverts if it is not mined within this long of being submitted"
+                  : "This token was deployed before transaction deadlines and trades without one"}
+              </span>
+            </div>
+          </label>
+
+          {breakdown && (
+            <QuoteBreakdownPanel
+              breakdown={breakdown}
+              level={impactLevel}
+              baseLabel={baseLabel}
+              quoteLabel={quoteLabel}
+              blockNumber={contractData?.blockNumber}
+            />
+          )}
+
+          {breakdown && params && !isExactCurve(params) && (
+            <div className="text-xs text-base-content/60">
+              {CURVE_LABELS[curveType(params)]} curve quotes are estimates; the transaction uses the contract&apos;s exact amounts
+            </div>
+          )}
+
+          {quote && !!tradeEth && contractData && (
+            <div className="rounded-lg bg-base-200 p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-base-content/60">{isBuyMode ? "Curve cost" : "Curve refund"}</span>
+                  <span className="font-medium">{formatEther(quote.curveEth)} {quoteLabel}</span>
                 </div>
-                <div className="flex gap-2">
-                  <input
-                    type="number"
-                    placeholder="0.0"
-                    className="input input-bordered flex-1"
-                    value={tokenAmount}
-                    onChange={(e) => setTokenAmount(e.target.value)}
-                    disabled={isTransactionLoading}
-                  />
-                  {userBalance && parseFloat(userBalance) > 0 && (
-                    <button
-                      type="button"
-                      className="btn btn-outline btn-sm"
-                      onClick={() => setTokenAmount(userBalance)}
-                      disabled={isTransactionLoading}
-                    >
-                      Max
-                    </button>
-                  )}
+                <div className="flex justify-between">
+                  <span className="text-base-content/60">Protocol fee ({formatBps(Number(contractData.fees.protocolFeeBps))})</span>
+                  <span className="font-medium">{isBuyMode ? "+" : "−"} {formatEther(quote.protocolFee)} {quoteLabel}</span>
                 </div>
-              </label>
-              <label className="form-control w-full">
-                <div className="label">
-                  <span className="label-text">To ({quoteLabel})</span>
+                <div className="flex justify-between">
+                  <span className="text-base-content/60">Creator fee ({formatBps(Number(contractData.fees.creatorFeeBps))})</span>
+                  <span className="font-medium">{isBuyMode ? "+" : "−"} {formatEther(quote.creatorFee)} {quoteLabel}</span>
                 </div>
+                {networkFee && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-base-content/60">Network fee</span>
+                      <span className="font-medium">≤ {formatEther(networkFee.fee, 8)} {quoteLabel}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-base-300 pt-1">
+                      <span className="text-base-content/60">{isBuyMode ? "Total cost" : "Net received"}</span>
+                      <span className="font-medium">
+                        {isBuyMode
+                          ? `≤ ${formatEther(tradeEth + networkFee.fee)}`
+                          : `≥ ${formatEther(tradeEth > networkFee.fee ? tradeEth - networkFee.fee : BigInt(0))}`}{" "}
+                        {quoteLabel}
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+              {networkFee && (
+                <p className="text-xs text-base-content/60 mt-2">
+                  {networkFee.estimated ? `~${networkFee.gas.toString()} gas` : `Estimate unavailable; assuming ${networkFee.gas.toString()} gas`}
+                  {" "}at up to {formatWei(networkFee.maxFeePerGas, 9, 3)} gwei, plus headroom
+                </p>
+              )}
+            </div>
+          )}
+          {shortOfGas && (
+            <div className="text-sm text-error">
+              Your {quoteLabel} balance may not cover this trade plus the network fee
+            </div>
+          )}
+
+          {isCapped && capacity !== null && (
+            <div className="text-sm text-warning">
+              Only {formatEther(capacity)} {baseLabel} left before the curve graduates; this buy is capped there
+              {mode === "exactIn" && quote ? ` and sends ${formatEther(quote.eth)} ${quoteLabel}` : ""}
+            </div>
+          )}
+
+          {mode === "exactOut" && isBuyMode && !!estimatedEth && (
+            <div className="text-sm text-base-content/60">
+              Sends up to {formatEther(addSlippage(estimatedEth, slippagePct))} {quoteLabel} including slippage; any excess is refunded
+            </div>
+          )}
+          {mode === "exactOut" && !isBuyMode && !!contractData && !!ethWei && !quote && (
+            <div className="text-sm text-error">The curve&apos;s reserve can&apos;t refund that much {quoteLabel}</div>
+          )}
+
+          {impactLevel === "notice" && breakdown?.priceImpactBps != null && (
+            <div className="text-sm text-info">
+              This trade moves the price by {formatBps(breakdown.priceImpactBps)}.
+            </div>
+          )}
+
+          {confirming && (
+            <div className={`alert ${impactLevel === "danger" ? "alert-error" : "alert-warning"} flex flex-col items-stretch gap-2`}>
+              <span>
+                {breakdown?.priceImpactBps != null
+                  ? `High price impact: you'd trade ${formatBps(breakdown.priceImpactBps)} away from the current spot price.`
+                  : "The spot price is zero, so this trade's price impact can't be measured."}
+                {" "}Press swap again to confirm.
+              </span>
+              {impactLevel === "danger" && (
                 <input
                   type="text"
-                  placeholder="0.0"
-                  className="input input-bordered w-full"
-                  value={estimatedEth ? formatNumber(parseFloat(estimatedEth)) : ""}
-                  readOnly
+                  placeholder={`Type "${DANGER_CONFIRMATION}" to continue`}
+                  className="input input-bordered input-sm w-full"
+                  value={confirmText}
+                  onChange={(e) => setConfirmText(e.target.value)}
                 />
-              </label>
-            </>
+              )}
+              <button className="btn btn-sm btn-ghost self-end" onClick={() => setConfirming(false)}>
+                Cancel
+              </button>
+            </div>
           )}
 
-          <div className="text-sm text-base-content/60">
-            {isBuyMode ? (
-              <>Rate: 1 {quoteLabel} = {rateForOneEth ? formatNumber(parseFloat(rateForOneEth)) : "—"} {baseLabel}</>
-            ) : (
-              <>Rate: 1 {baseLabel} = {estimatedEth && tokenAmount ? formatNumber(parseFloat(estimatedEth) / parseFloat(tokenAmount)) : "—"} {quoteLabel}</>
-            )}
-          </div>
-
           <button
-            className={`btn w-full ${canSwap ? 'btn-primary' : 'btn-disabled'}`}
+            className={`btn w-full ${canSwap ? (confirming ? 'btn-warning' : 'btn-primary') : 'btn-disabled'}`}
             onClick={handleSwap}
-            disabled={!canSwap}
+            disabled={!canSwap || (confirming && impactLevel === "danger" && confirmText.trim().toLowerCase() !== DANGER_CONFIRMATION)}
           >
             {isTransactionLoading ? (
               <>
                 <span className="loading loading-spinner loading-sm"></span>
                 {isBuyMode ? "Buying..." : "Selling..."}
               </>
+            ) : confirming ? (
+              isBuyMode ? "Confirm buy anyway" : "Confirm sell anyway"
             ) : (
               isBuyMode ? `Buy ${baseLabel}` : `Sell ${baseLabel}`
             )}
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import { formatWei, parseAmount } from "../../lib/format";
+
+// Digits with at most one decimal point; partial input like "1." is allowed while typing
+const DECIMAL_PATTERN = /^\d*\.?\d*$/;
+
+type TokenAmountInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  max?: bigint; // base units; shows a "Max" button that fills in exactly this amount
+  decimals?: number;
+  disabled?: boolean;
+};
+
+export function TokenAmountInput({ value, onChange, max, decimals = 18, disabled }: TokenAmountInputProps) {
+  const invalid = value !== "" && parseAmount(value, decimals) === null;
+
+  const handleChange = (next: string) => {
+    const normalized = next.replace(",", ".");
+    if (DECIMAL_PATTERN.test(normalized)) onChange(normalized);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        type="text"
+        inputMode="decimal"
+        autoComplete="off"
+        placeholder="0.0"
+        className={`input input-bordered flex-1 ${invalid ? "input-error" : ""}`}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+      />
+      {max !== undefined && max > BigInt(0) && (
+        <button
+          type="button"
+          className="btn btn-outline btn-sm"
+          onClick={() => onChange(formatWei(max, decimals, decimals))}
+          disabled={disabled}
+        >
+          Max
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import React from "react";
+import { TokenMetaCard } from "./TokenMetaCard";
+import { SwapCard } from "./SwapCard";
+import { Portfolio } from "./Portfolio";
+import { BondingCurveChart } from "./BondingCurveChart";
+import { TradeHistory } from "./TradeHistory";
+import { useChainId } from "wagmi";
+import { useContractData } from "../hooks/useContractData";
+import { useRealtimeUpdates } from "../hooks/useRealtimeUpdates";
+import { findToken } from "../../lib/deployments";
+
+export function TokenDashboard() {
+  const chainId = useChainId();
+  const { data, contractAddress } = useContractData();
+  useRealtimeUpdates();
+
+  // Prefer the on-chain symbol so tokens missing from the registry still get labels
+  const baseLabel = data?.symbol ?? (contractAddress && findToken(chainId, contractAddress)?.symbol) ?? "TOKEN";
+
+  return (
+    <main className="max-w-5xl mx-auto space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <TokenMetaCard />
+        <SwapCard baseLabel={baseLabel} quoteLabel="ETH" />
+      </div>
+      <BondingCurveChart />
+      <Portfolio baseLabel={baseLabel} />
+      <TradeHistory baseLabel={baseLabel} quoteLabel="ETH" />
+    </main>
+  );
+}
@@ -2,15 +2,16 @@
 
 import React, { useState } from "react";
 import { useContractData } from "../hooks/useContractData";
+import { CURVE_FORMULAS, CURVE_LABELS, curveFields, curveType } from "../../lib/curve";
 import { formatEther } from "../../lib/format";
-import { getContractAddress } from "../../lib/contract";
+import { capProgress } from "../../lib/graduation";
 
 export function TokenMetaCard() {
-  const { data, isLoading, error } = useContractData();
+  const { data, isLoading, error, contractAddress } = useContractData();
   const [copied, setCopied] = useState(false);
-  const contractAddress = getContractAddress();
 
   const copyToClipboard = async () => {
+    if (!contractAddress) return;
     try {
       await navigator.clipboard.writeText(contractAddress);
       setCopied(true);
@@ -39,11 +40,11 @@ export function TokenMetaCard() {
               <p className="font-medium">...</p>
             </div>
             <div>
-              <p className="text-base-content/60">Initial Price</p>
+              <p className="text-base-content/60">Curve</p>
               <p className="font-medium">...</p>
             </div>
             <div>
-              <p className="text-base-content/60">Slope</p>
+              <p className="text-base-content/60">Initial Price</p>
               <p className="font-medium">...</p>
             </div>
             <div>
@@ -80,11 +81,14 @@ export function TokenMetaCard() {
     );
   }
 
+  const type = curveType(data.curve);
+  const progress = data.graduation ? capProgress(data.curve, data.graduation, data.totalSupply) : null;
+
   return (
     <div className="card w-full max-w-xl bg-base-100 shadow">
       <div className="card-body">
         <h2 className="card-title">{data.name} ({data.symbol})</h2>
-        <p className="text-sm text-base-content/60">Live contract data</p>
+        <p className="text-sm text-base-content/60">Live contract data as of block #{data.blockNumber.toString()}</p>
         
         {/* Contract Address */}
         <div className="mt-4 p-3 bg-base-200 rounded-lg">
@@ -130,18 +134,52 @@ export function TokenMetaCard() {
             <p className="font-medium">{formatEther(data.totalSupply)}</p>
           </div>
           <div>
-            <p className="text-base-content/60">Initial Price</p>
-            <p className="font-medium">{formatEther(data.initialPrice)} ETH</p>
-          </div>
-          <div>
-            <p className="text-base-content/60">Slope</p>
-            <p className="font-medium">{formatEther(data.slope)}</p>
+            <p className="text-base-content/60">Curve</p>
+            <p className="font-medium">{CURVE_LABELS[type]}</p>
+            <p className="text-xs text-base-content/60 font-mono">{CURVE_FORMULAS[type]}</p>
           </div>
+          {curveFields(data.curve, data.symbol).map((field) => (
+            <div key={field.label}>
+              <p className="text-base-content/60">{field.label}</p>
+              <p className="font-medium">{field.value}</p>
+            </div>
+          ))}
           <div>
             <p className="text-base-content/60">Current Price</p>
             <p className="font-medium">{formatEther(data.currentPrice)} ETH</p>
           </div>
         </div>
+
+        {data.graduation && progress && (
+          <div className="mt-4 space-y-1 text-sm">
+            <div className="flex items-center justify-between">
+              <p className="text-base-content/60">
+                {progress.kind === "reserve" ? "Reserve towards graduation" : "Supply towards graduation"}
+              </p>
+              {data.graduation.graduated && <span className="badge badge-success">Graduated</span>}
+            </div>
+            <progress
+              className={`progress w-full ${data.graduation.graduated ? 'progress-success' : 'progress-primary'}`}
+              value={progress.bps}
+              max={10000}
+            />
+            <div className="flex justify-between text-xs text-base-content/60">
+              <span>
+                {formatEther(progress.current)} / {formatEther(progress.target)} {progress.kind === "reserve" ? "ETH" : data.symbol}
+              </span>
+              <span>{(progress.bps / 100).toFixed(2)}%</span>
+            </div>
+            <p className="text-xs text-base-content/60">
+              {data.graduation.graduated
+                ? data.graduation.freezeBurns
+                  ? "Minting is closed and burns are frozen."
+                  : "Minting is closed; holders can still sell back to the curve."
+                : data.graduation.freezeBurns
+                  ? `Minting stops at ${formatEther(data.graduation.maxSupply)} ${data.symbol}, after which burns are frozen.`
+                  : `Minting stops at ${formatEther(data.graduation.maxSupply)} ${data.symbol}.`}
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
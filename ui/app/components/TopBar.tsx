@@ -1,13 +1,77 @@
 "use client";
 
 import { ConnectButton } from "@rainbow-me/rainbowkit";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useChainId, useSwitchChain } from "wagmi";
+import { useSelectedToken } from "../hooks/useSelectedToken";
+import { ActivityDrawer } from "./ActivityDrawer";
+import { getDefaultTokenAddress } from "../../lib/contract";
+import { findToken, listTokens, supportedChains } from "../../lib/deployments";
 
 export function TopBar() {
+  const router = useRouter();
+  const chainId = useChainId();
+  const { switchChain } = useSwitchChain();
+  const selected = useSelectedToken();
+  const tokens = listTokens(chainId);
+
+  // Follow the chain switch to that chain's default token, since token addresses are per chain
+  const handleChainChange = (nextChainId: number) => {
+    switchChain(
+      { chainId: nextChainId },
+      {
+        onSuccess: () => {
+          const token = getDefaultTokenAddress(nextChainId);
+          if (token) router.push(`/token/${token}`);
+        },
+      },
+    );
+  };
+
   return (
-    <div className="w-full max-w-5xl mx-auto px-6 py-4 flex items-center justify-end">
-      <ConnectButton />
+    <div className="w-full max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <select
+          className="select select-bordered select-sm"
+          value={chainId}
+          onChange={(e) => handleChainChange(Number(e.target.value))}
+        >
+          {supportedChains.map((chain) => (
+            <option key={chain.id} value={chain.id}>
+              {chain.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select select-bordered select-sm"
+          value={selected ?? ""}
+          onChange={(e) => router.push(`/token/${e.target.value}`)}
+          disabled={!selected && tokens.length === 0}
+        >
+          {!selected && <option value="">No tokens on this chain</option>}
+          {selected && !findToken(chainId, selected) && (
+            <option value={selected}>Custom ({selected.slice(0, 6)}…{selected.slice(-4)})</option>
+          )}
+          {tokens.map((token) => (
+            <option key={token.address} value={token.address}>
+              {token.name} ({token.symbol})
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-3">
+        {selected && (
+          <Link href={`/token/${selected}/simulate`} className="btn btn-sm btn-ghost">
+            Simulate
+          </Link>
+        )}
+        <Link href="/launch" className="btn btn-sm btn-outline">
+          Launch token
+        </Link>
+        <ActivityDrawer />
+        <ConnectButton />
+      </div>
     </div>
   );
 }
-
-
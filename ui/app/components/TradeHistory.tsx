@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAccount } from "wagmi";
+import { useTradeHistory } from "../hooks/useTradeHistory";
+import { formatEther } from "../../lib/format";
+
+const PAGE_SIZE = 10;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const formatTime = (timestamp: number) => (timestamp ? new Date(timestamp * 1000).toLocaleString() : "—");
+
+type TradeHistoryProps = {
+  baseLabel: string;
+  quoteLabel: string;
+};
+
+export function TradeHistory({ baseLabel, quoteLabel }: TradeHistoryProps) {
+  const { address } = useAccount();
+  const { trades, isLoading, error } = useTradeHistory();
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const visible = (trades ?? []).filter(
+    (trade) => !onlyMine || (address && trade.trader.toLowerCase() === address.toLowerCase()),
+  );
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className="card w-full bg-base-100 shadow">
+      <div className="card-body">
+        <div className="flex justify-between items-center">
+          <h2 className="card-title">Trade History</h2>
+          <div className="flex bg-base-200 rounded-lg p-1">
+            <button
+              className={`btn btn-sm ${!onlyMine ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => {
+                setOnlyMine(false);
+                setPage(0);
+              }}
+            >
+              All
+            </button>
+            <button
+              className={`btn btn-sm ${onlyMine ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => {
+                setOnlyMine(true);
+                setPage(0);
+              }}
+              disabled={!address}
+            >
+              Mine
+            </button>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="text-error text-sm">
+            {error instanceof Error ? error.message : "Failed to load trade history"}
+          </div>
+        ) : isLoading ? (
+          <div className="text-sm text-base-content/60">Scanning chain history...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-base-content/60">No trades yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Size ({baseLabel})</th>
+                  <th>{quoteLabel}</th>
+                  <th>Avg Price ({quoteLabel})</th>
+                  <th>Trader</th>
+                  <th>Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((trade) => (
+                  <tr key={`${trade.txHash}-${trade.logIndex}`}>
+                    <td>
+                      <span className={`badge badge-sm ${trade.kind === "buy" ? "badge-success" : "badge-error"}`}>
+                        {trade.kind === "buy" ? "Buy" : "Sell"}
+                      </span>
+                    </td>
+                    <td>{formatEther(trade.amount, 4)}</td>
+                    <td>{formatEther(trade.eth)}</td>
+                    <td>{formatEther(trade.price, 10)}</td>
+                    <td className="font-mono text-xs">{shortAddress(trade.trader)}</td>
+                    <td className="text-xs">{formatTime(trade.timestamp)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex justify-between items-center text-sm">
+            <button
+              className="btn btn-sm btn-ghost"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+            >
+              ← Newer
+            </button>
+            <span className="text-base-content/60">Page {currentPage + 1} of {pageCount}</span>
+            <button
+              className="btn btn-sm btn-ghost"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+            >
+              Older →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
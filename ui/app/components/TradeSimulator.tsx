@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { createPublicClient, http } from "viem";
+import { useContractData, useTokenReserve } from "../hooks/useContractData";
+import { CURVE_FORMULAS, CURVE_LABELS, curveType } from "../../lib/curve";
+import { formatEther } from "../../lib/format";
+import { checkAgainstFork, parseScript, simulateTrades } from "../../lib/simulator";
+
+const DEFAULT_FORK_RPC = "http://127.0.0.1:8545";
+
+// Signed amount with an explicit sign, e.g. "+0.5" or "-0.25"
+const formatSigned = (wei: bigint) => `${wei < BigInt(0) ? "-" : "+"}${formatEther(wei < BigInt(0) ? -wei : wei)}`;
+
+const exampleScript = (symbol: string) =>
+  ["# <actor> <buy|sell> <amount> <ETH|" + symbol + ">", "alice buy 2 ETH", `bob sell 500 ${symbol}`, "me buy 1 ETH"].join("\n");
+
+export function TradeSimulator() {
+  const { data, isLoading, contractAddress } = useContractData();
+  const { reserve, isLoading: reserveLoading } = useTokenReserve();
+  const symbol = data?.symbol ?? "TOKEN";
+
+  const [script, setScript] = useState<string | null>(null);
+  const [forkRpc, setForkRpc] = useState(DEFAULT_FORK_RPC);
+  const [forkValues, setForkValues] = useState<(bigint | null)[] | null>(null);
+  const [forkError, setForkError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // Until the user edits it, show an example that uses the token's symbol
+  const scriptText = script ?? exampleScript(symbol);
+
+  const { steps, errors } = useMemo(() => parseScript(scriptText, symbol), [scriptText, symbol]);
+  const summary = useMemo(() => {
+    if (!data || reserve === undefined) return null;
+    return simulateTrades(
+      { params: data.curve, supply: data.totalSupply, reserve, fees: data.fees, graduation: data.graduation },
+      steps,
+    );
+  }, [data, reserve, steps]);
+
+  const handleScriptChange = (value: string) => {
+    setScript(value);
+    setForkValues(null);
+    setForkError(null);
+  };
+
+  const handleForkCheck = async () => {
+    if (!summary || !contractAddress) return;
+    setChecking(true);
+    setForkError(null);
+    try {
+      const client = createPublicClient({ transport: http(forkRpc) });
+      setForkValues(await checkAgainstFork(client, contractAddress, summary.results));
+    } catch (err) {
+      setForkValues(null);
+      setForkError(err instanceof Error ? err.message : "Fork check failed");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (isLoading || reserveLoading || !data || !summary) {
+    return (
+      <div className="card w-full bg-base-100 shadow">
+        <div className="card-body">
+          <h2 className="card-title">Trade Simulator</h2>
+          <div className="text-sm text-base-content/60">{isLoading || reserveLoading ? "Loading..." : "No contract data available"}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card w-full bg-base-100 shadow">
+        <div className="card-body">
+          <h2 className="card-title">Trade Simulator</h2>
+          <p className="text-sm text-base-content/60">
+            Runs off-chain from {data.name} at block #{data.blockNumber.toString()}. Nothing is sent to the network.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-base-content/60">Starting supply</p>
+              <p className="font-medium">{formatEther(data.totalSupply)} {symbol}</p>
+            </div>
+            <div>
+              <p className="text-base-content/60">Starting price</p>
+              <p className="font-medium">{formatEther(data.currentPrice, 18)} ETH</p>
+            </div>
+            <div>
+              <p className="text-base-content/60">Starting reserve</p>
+              <p className="font-medium">{formatEther(reserve ?? BigInt(0))} ETH</p>
+            </div>
+            <div>
+              <p className="text-base-content/60">Curve</p>
+              <p className="font-medium" title={CURVE_FORMULAS[curveType(data.curve)]}>{CURVE_LABELS[curveType(data.curve)]}</p>
+            </div>
+          </div>
+
+          <label className="form-control w-full">
+            <div className="label">
+              <span className="label-text">Script (one trade per line)</span>
+            </div>
+            <textarea
+              className={`textarea textarea-bordered w-full font-mono text-sm h-40 ${errors.length > 0 ? "textarea-error" : ""}`}
+              value={scriptText}
+              onChange={(e) => handleScriptChange(e.target.value)}
+            />
+          </label>
+          {errors.length > 0 && (
+            <ul className="text-sm text-error">
+              {errors.map((error) => (
+                <li key={error.line}>Line {error.line}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="card w-full bg-base-100 shadow">
+        <div className="card-body">
+          <h2 className="card-title">Steps</h2>
+          {summary.results.length === 0 ? (
+            <div className="text-sm text-base-content/60">No trades scripted</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Actor</th>
+                    <th>Type</th>
+                    <th>Size ({symbol})</th>
+                    <th>Cost / Refund (ETH)</th>
+                    <th>Price after (ETH)</th>
+                    <th>Supply after</th>
+                    <th>Reserve after (ETH)</th>
+                    {forkValues && <th>Fork check</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.results.map((result, index) => {
+                    const onChain = forkValues?.[index];
+                    return (
+                      <tr key={result.step.line} className={result.error ? "opacity-60" : ""}>
+                        <td>{index + 1}</td>
+                        <td>{result.step.actor}</td>
+                        <td>
+                          <span className={`badge badge-sm ${result.step.side === "buy" ? "badge-success" : "badge-error"}`}>
+                            {result.step.side === "buy" ? "Buy" : "Sell"}
+                          </span>
+                        </td>
+                        {result.error ? (
+                          <td colSpan={5} className="text-error">{result.error}</td>
+                        ) : (
+                          <>
+                            <td>{formatEther(result.tokens, 4)}</td>
+                            <td>{formatEther(result.eth)}</td>
+                            <td>{formatEther(result.priceAfter, 10)}</td>
+                            <td>{formatEther(result.supplyAfter, 4)}</td>
+                            <td>{formatEther(result.reserveAfter)}</td>
+                          </>
+                        )}
+                        {forkValues && (
+                          <td>
+                            {onChain === null || onChain === undefined ? (
+                              "—"
+                            ) : onChain === result.curveEth ? (
+                              <span className="text-success">✓ match</span>
+                            ) : (
+                              <span className="text-error">✗ {formatEther(onChain, 18)}</span>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row gap-2 md:items-end mt-2">
+            <label className="form-control w-full md:flex-1">
+              <div className="label">
+                <span className="label-text">Local fork RPC</span>
+                <span className="label-text-alt">e.g. anvil --fork-url &lt;rpc&gt;</span>
+              </div>
+              <input
+                type="text"
+                className="input input-bordered input-sm w-full font-mono"
+                value={forkRpc}
+                onChange={(e) => setForkRpc(e.target.value)}
+              />
+            </label>
+            <button
+              className="btn btn-sm btn-outline"
+              onClick={handleForkCheck}
+              disabled={checking || summary.results.every((result) => result.error)}
+            >
+              {checking && <span className="loading loading-spinner loading-xs"></span>}
+              Check against fork
+            </button>
+          </div>
+          {forkError && <div className="text-sm text-error break-all">{forkError}</div>}
+        </div>
+      </div>
+
+      <div className="card w-full bg-base-100 shadow">
+        <div className="card-body">
+          <h2 className="card-title">Summary</h2>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-base-content/60">Final supply</p>
+              <p className="font-medium">{formatEther(summary.finalSupply)} {symbol}</p>
+            </div>
+            <div>
+              <p className="text-base-content/60">Final price</p>
+              <p className="font-medium">{formatEther(summary.finalPrice, 18)} ETH</p>
+            </div>
+            <div>
+              <p className="text-base-content/60">Final reserve</p>
+              <p className="font-medium">{formatEther(summary.finalReserve)} ETH</p>
+            </div>
+          </div>
+          {summary.actors.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Actor</th>
+                    <th>Net {symbol}</th>
+                    <th>Net ETH</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.actors.map((actor) => (
+                    <tr key={actor.actor}>
+                      <td>{actor.actor}</td>
+                      <td>{formatSigned(actor.tokens)}</td>
+                      <td className={actor.eth > BigInt(0) ? "text-success" : actor.eth < BigInt(0) ? "text-error" : ""}>
+                        {formatSigned(actor.eth)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { type Hash } from "viem";
+import { useTransactions } from "../hooks/useTransactions";
+import { getChain } from "../../lib/deployments";
+import { TRANSACTION_STATUS_LABELS, explorerTxUrl, type TransactionStatus } from "../../lib/transactions";
+
+// Settled transactions stay on screen this long before fading out
+const DISMISS_AFTER_MS = 8000;
+
+const ALERT_CLASSES: Record<TransactionStatus, string> = {
+  pending: "alert-info",
+  confirmed: "alert-success",
+  failed: "alert-error",
+  replaced: "alert-warning",
+  dropped: "alert-warning",
+};
+
+export function TransactionToasts() {
+  const { transactions } = useTransactions();
+  const [dismissed, setDismissed] = useState<Set<Hash>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+
+  const visible = transactions.filter(
+    (tx) => !dismissed.has(tx.hash) && (tx.status === "pending" || now - tx.updatedAt < DISMISS_AFTER_MS),
+  );
+
+  // Tick only while something is on screen, so settled toasts expire
+  const hasVisible = visible.length > 0;
+  useEffect(() => {
+    if (!hasVisible) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasVisible]);
+
+  if (!hasVisible) return null;
+
+  return (
+    <div className="toast toast-end z-50">
+      {visible.map((tx) => {
+        const url = explorerTxUrl(getChain(tx.chainId)?.blockExplorers?.default.url, tx.hash);
+        return (
+          <div key={tx.hash} className={`alert ${ALERT_CLASSES[tx.status]} flex items-center gap-3`}>
+            {tx.status === "pending" && <span className="loading loading-spinner loading-sm"></span>}
+            <div className="flex flex-col text-sm">
+              <span className="font-semibold">{tx.description}</span>
+              <span>
+                {TRANSACTION_STATUS_LABELS[tx.status]}
+                {url && (
+                  <>
+                    {" · "}
+                    <a href={url} target="_blank" rel="noopener noreferrer" className="link">
+                      View
+                    </a>
+                  </>
+                )}
+              </span>
+            </div>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => setDismissed((prev) => new Set(prev).add(tx.hash))}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { Address } from "viem";
+import type { GasCall } from "../../lib/gas";
+
+// Shared React Query keys, so realtime invalidation hits exactly what the data hooks cache.
+// Every key is [root, chainId, ...].
+
+export const queryKeys = {
+  contractData: (chainId: number, token: Address | undefined) => ["contractData", chainId, token] as const,
+  userBalance: (chainId: number, token: Address | undefined, account: Address | undefined) =>
+    ["userBalance", chainId, token, account] as const,
+  userEthBalance: (chainId: number, account: Address | undefined) => ["userEthBalance", chainId, account] as const,
+  tradeHistory: (chainId: number, token: Address | undefined) => ["tradeHistory", chainId, token] as const,
+  tokenReserve: (chainId: number, token: Address | undefined, blockNumber: bigint | undefined) =>
+    ["tokenReserve", chainId, token, blockNumber?.toString()] as const,
+  factoryProtocolFee: (chainId: number) => ["factoryProtocolFee", chainId] as const,
+  maxFeePerGas: (chainId: number) => ["maxFeePerGas", chainId] as const,
+  tradeGas: (chainId: number, token: Address | undefined, account: Address | undefined, call: GasCall, tokens: bigint, eth: bigint) =>
+    ["tradeGas", chainId, token, account, call, tokens.toString(), eth.toString()] as const,
+};
+
+const ROOTS = new Set<unknown>(Object.keys(queryKeys));
+
+/**
+ * Refetches every on-chain query for `chainId`, e.g. once one of our own transactions settles.
+ */
+export function invalidateChainQueries(queryClient: QueryClient, chainId: number) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => ROOTS.has(query.queryKey[0]) && query.queryKey[1] === chainId,
+  });
+}
@@ -1,98 +1,93 @@
 "use client";
 
-import { usePublicClient, useAccount } from "wagmi";
+import { usePublicClient, useAccount, useChainId } from "wagmi";
 import { useQuery } from "@tanstack/react-query";
-import { 
-  readName, 
-  readSymbol, 
-  readTotalSupply, 
-  readInitialPrice,
-  readSlope,
-  readCurrentPrice,
-  readBalanceOf,
-  getContractAddress 
-} from "../../lib/contract";
+import { readBalanceOf, readReserve, readTokenSnapshot } from "../../lib/contract";
+import { useSelectedToken } from "./useSelectedToken";
+import { queryKeys } from "./queryKeys";
 
 export function useContractData() {
   const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const contractAddress = useSelectedToken();
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ["contractData"],
+    queryKey: queryKeys.contractData(chainId, contractAddress),
     queryFn: async () => {
-      if (!publicClient) throw new Error("No public client");
+      if (!publicClient || !contractAddress) throw new Error("No public client or token");
 
-      const contractAddress = getContractAddress();
       console.log("Contract address:", contractAddress);
-      
-      const [name, symbol, totalSupply, initialPrice, slope, currentPrice] = await Promise.all([
-        readName(publicClient, contractAddress),
-        readSymbol(publicClient, contractAddress),
-        readTotalSupply(publicClient, contractAddress),
-        readInitialPrice(publicClient, contractAddress),
-        readSlope(publicClient, contractAddress),
-        readCurrentPrice(publicClient, contractAddress),
-      ]);
-
-      console.log("Contract data:", { name, symbol, totalSupply, initialPrice, slope, currentPrice });
-
-      return {
-        name,
-        symbol,
-        totalSupply,
-        initialPrice,
-        slope,
-        currentPrice,
-      };
+
+      // One block-pinned read, so every field (and every quote built on them) agrees
+      const snapshot = await readTokenSnapshot(publicClient, contractAddress);
+
+      console.log("Contract data:", snapshot);
+
+      return snapshot;
     },
-    enabled: !!publicClient,
-    refetchInterval: 10000, // Refetch every 10 seconds
+    enabled: !!publicClient && !!contractAddress,
   });
 
   return {
     data,
     isLoading,
     error,
-    contractAddress: publicClient ? getContractAddress() : undefined,
+    contractAddress,
   };
 }
 
 export function useUserBalance() {
   const publicClient = usePublicClient();
+  const chainId = useChainId();
   const { address } = useAccount();
+  const contractAddress = useSelectedToken();
 
   const { data: balance, isLoading, error } = useQuery({
-    queryKey: ["userBalance", address],
+    queryKey: queryKeys.userBalance(chainId, contractAddress, address),
     queryFn: async () => {
-      if (!publicClient || !address) throw new Error("No public client or address");
-      const contractAddress = getContractAddress();
-      const balance = await readBalanceOf(publicClient, address, contractAddress);
-      return (Number(balance) / 1e18).toString(); // Convert from wei to human-readable format
+      if (!publicClient || !address || !contractAddress) throw new Error("No public client, address or token");
+      return readBalanceOf(publicClient, address, contractAddress);
     },
-    enabled: !!publicClient && !!address,
-    refetchInterval: 10000, // Refetch every 10 seconds
+    enabled: !!publicClient && !!address && !!contractAddress,
   });
 
-  return {
-    balance,
-    isLoading,
-    error,
-  };
+  // Kept in wei so "Max" can send exactly the on-chain balance
+  return { balance, isLoading, error };
 }
 
 export function useUserEthBalance() {
   const publicClient = usePublicClient();
+  const chainId = useChainId();
   const { address } = useAccount();
 
   const { data: ethBalance, isLoading, error } = useQuery({
-    queryKey: ["userEthBalance", address],
+    queryKey: queryKeys.userEthBalance(chainId, address),
     queryFn: async () => {
       if (!publicClient || !address) throw new Error("No public client or address");
-      const balance = await publicClient.getBalance({ address });
-      return (Number(balance) / 1e18).toString(); // Convert from wei to human-readable format
+      return publicClient.getBalance({ address });
     },
     enabled: !!publicClient && !!address,
-    refetchInterval: 10000, // Refetch every 10 seconds
   });
 
   return { ethBalance, isLoading, error };
 }
+
+// The curve's ETH reserve, read at the same block as the contract data snapshot
+export function useTokenReserve() {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const contractAddress = useSelectedToken();
+  const { data: snapshot } = useContractData();
+  const blockNumber = snapshot?.blockNumber;
+
+  const { data: reserve, isLoading, error } = useQuery({
+    queryKey: queryKeys.tokenReserve(chainId, contractAddress, blockNumber),
+    queryFn: async () => {
+      if (!publicClient || !contractAddress || blockNumber === undefined) throw new Error("No public client, token or snapshot");
+      return readReserve(publicClient, contractAddress, blockNumber);
+    },
+    enabled: !!publicClient && !!contractAddress && blockNumber !== undefined,
+  });
+
+  return { reserve, blockNumber, isLoading, error };
+}
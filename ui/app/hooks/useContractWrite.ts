@@ -1,15 +1,26 @@
 "use client";
 
-import { usePublicClient, useWalletClient, useAccount } from "wagmi";
+import { usePublicClient, useWalletClient, useAccount, useChainId } from "wagmi";
 import { useState } from "react";
 import { 
-  readCalculateCost,
-  readCalculateRefund,
+  readCalculateTokensForEth,
+  readQuoteBurn,
+  readEntryPoints,
+  readQuoteMint,
+  readTokenSnapshot,
+  writeBuyWithEth,
   writeMintTokens,
   writeBurnTokens,
-  linearBondingTokenAbi,
-  getContractAddress
 } from "../../lib/contract";
+import { isExactCurve } from "../../lib/curve";
+import { deadlineFrom } from "../../lib/deadline";
+import { decodeError, type DecodedError } from "../../lib/errors";
+import { remainingSupply } from "../../lib/graduation";
+import { capBuyQuote, quoteTrade, type TradeMode, type TradeQuote, type TradeSide } from "../../lib/quote";
+import { addSlippage, applySlippage } from "../../lib/slippage";
+import { formatEther } from "../../lib/format";
+import { useSelectedToken } from "./useSelectedToken";
+import { useTransactions } from "./useTransactions";
 
 type TransactionState = "idle" | "loading" | "success" | "error";
 
@@ -17,14 +28,19 @@ export function useContractWrite() {
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const { address } = useAccount();
-  
+  const chainId = useChainId();
+  const contractAddress = useSelectedToken();
+  const { track } = useTransactions();
+
   const [buyState, setBuyState] = useState<TransactionState>("idle");
   const [sellState, setSellState] = useState<TransactionState>("idle");
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DecodedError | null>(null);
 
-  const buyTokens = async (ethAmount: string, slippagePercent: string = "0") => {
+  // exactIn: spend `amountWei` ETH. exactOut: mint exactly `amountWei` tokens.
+  // A non-empty `deadlineMinutes` makes the trade revert if it's mined that long after submission.
+  const buyTokens = async (amountWei: bigint, slippagePercent: string = "0", mode: TradeMode = "exactIn", deadlineMinutes: string = "") => {
     if (!publicClient || !walletClient || !address) {
-      setError("Wallet not connected");
+      setError({ message: "Wallet not connected" });
       return;
     }
 
@@ -32,41 +48,43 @@ export function useContractWrite() {
     setError(null);
 
     try {
-      const ethWei = BigInt(Math.floor(parseFloat(ethAmount) * 1e18));
-
-      // Estimate tokens out via onchain formula using binary search (same as calculateTokensForEth)
-      const tokensOutStr = await calculateTokensForEth(ethAmount);
-      const tokensOut = parseFloat(tokensOutStr || "0");
-      const tokensOutWei = BigInt(Math.floor(tokensOut * 1e18));
-
-      // Compute minTokenOut by applying slippage percent (e.g., 1% => 0.99 * expected)
-      const slip = Math.max(0, Math.min(100, parseFloat(slippagePercent || "0")));
-      const minOut = tokensOut * (1 - slip / 100);
-      const minTokenOutWei = BigInt(Math.floor(minOut * 1e18));
-
-      // Call explicit mint(amount, minTokenOut) using the expected amount
-      const receipt = await writeMintTokens({
-        publicClient,
-        walletClient,
-        account: address,
-        amount: tokensOutWei,
-        minTokenOut: minTokenOutWei,
-        value: ethWei,
-      });
+      const quote = await quoteFromCurve("buy", mode, amountWei);
+      if (!quote || quote.tokens === BigInt(0)) throw new Error("Amount too small to buy any tokens");
+
+      // Exact-in sends the ETH as entered (or what's left to buy on a capped curve) and lets the contract
+      // work out the tokens; the quote only sets the slippage floor. Exact-out mints the quoted amount and
+      // sends the cost plus slippage headroom; the contract refunds whatever isn't needed either way.
+      // Tokens without buyWithEth mint the quoted amount for exact-in too, which the quoted ETH covers exactly.
+      const deadline = await deadlineAt(deadlineMinutes);
+      const minTokenOutWei = mode === "exactOut" ? quote.tokens : applySlippage(quote.tokens, slippagePercent);
+      const ethWei = mode === "exactOut" ? addSlippage(quote.eth, slippagePercent) : quote.eth;
+      const deps = { publicClient, walletClient, account: address, address: contractAddress, minTokenOut: minTokenOutWei, value: ethWei, deadline };
+      const { buyWithEth } = await readEntryPoints(publicClient, contractAddress);
+
+      const receipt = mode === "exactOut" || !buyWithEth
+        ? await writeMintTokens({
+            ...deps,
+            amount: quote.tokens,
+            onSubmitted: (hash) => track({ hash, chainId, account: address, description: mode === "exactOut" ? `Buy ${formatEther(quote.tokens)} tokens` : `Buy with ${formatEther(ethWei)} ETH` }),
+          })
+        : await writeBuyWithEth({
+            ...deps,
+            onSubmitted: (hash) => track({ hash, chainId, account: address, description: `Buy with ${formatEther(ethWei)} ETH` }),
+          });
 
       setBuyState("success");
       return receipt;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Buy transaction failed";
-      setError(errorMessage);
+      setError(decodeError(err, "Buy transaction failed"));
       setBuyState("error");
       throw err;
     }
   };
 
-  const sellTokens = async (tokenAmount: string, minEth: string = "0") => {
+  // exactIn: burn `amountWei` tokens. exactOut: burn as few tokens as needed to receive `amountWei` ETH.
+  const sellTokens = async (amountWei: bigint, slippagePercent: string = "0", mode: TradeMode = "exactIn", deadlineMinutes: string = "") => {
     if (!publicClient || !walletClient || !address) {
-      setError("Wallet not connected");
+      setError({ message: "Wallet not connected" });
       return;
     }
 
@@ -74,168 +92,67 @@ export function useContractWrite() {
     setError(null);
 
     try {
-      const tokenWei = BigInt(Math.floor(parseFloat(tokenAmount) * 1e18));
-      
+      // Quote the refund exactly and reject anything worse than the slippage tolerance,
+      // so a sell front-run by other burns reverts instead of paying out less
+      const quote = await quoteFromCurve("sell", mode, amountWei);
+      if (!quote) throw new Error(mode === "exactOut" ? "The curve's reserve can't refund that much ETH" : "Cannot sell more tokens than the current supply");
+
+      const tokenWei = quote.tokens;
+      const minEthOutWei = applySlippage(quote.eth, slippagePercent);
+
       // Use burnTokens to sell tokens back to the contract
       const receipt = await writeBurnTokens({
         publicClient,
         walletClient,
         account: address,
+        address: contractAddress,
         amount: tokenWei,
+        minEthOut: minEthOutWei,
+        deadline: await deadlineAt(deadlineMinutes),
+        onSubmitted: (hash) => track({ hash, chainId, account: address, description: mode === "exactOut" ? `Sell for ${formatEther(amountWei)} ETH` : `Sell ${formatEther(tokenWei)} tokens` }),
       });
 
       setSellState("success");
       return receipt;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Sell transaction failed";
-      setError(errorMessage);
+      setError(decodeError(err, "Sell transaction failed"));
       setSellState("error");
       throw err;
     }
   };
 
-  const calculateTokensForEth = async (ethAmount: string) => {
-    if (!publicClient) {
-      console.log("No public client");
-      return "0";
-    }
-    
-    try {
-      const ethWei = BigInt(Math.floor(parseFloat(ethAmount) * 1e18));
-      
-      // Get current contract parameters
-      const [slope, initialPrice, totalSupply] = await Promise.all([
-        publicClient.readContract({ address: getContractAddress(), abi: linearBondingTokenAbi, functionName: "slope" }),
-        publicClient.readContract({ address: getContractAddress(), abi: linearBondingTokenAbi, functionName: "initialPrice" }),
-        publicClient.readContract({ address: getContractAddress(), abi: linearBondingTokenAbi, functionName: "totalSupply" })
-      ]);
-      
-      console.log("Contract parameters:", {
-        slope: slope.toString(),
-        initialPrice: initialPrice.toString(),
-        totalSupply: totalSupply.toString(),
-        ethWei: ethWei.toString()
-      });
-      
-      // Handle the case when totalSupply is 0 (initial purchase)
-      let bestTokens = BigInt(0);
-      
-      if (totalSupply === BigInt(0)) {
-        // For initial purchase, the formula is: cost = (a * n²) / 2 + b * n
-        // Rearranging: (a/2) * n² + b * n - cost = 0
-        // This is a quadratic equation: A * n² + B * n - C = 0
-        // Where: A = a/2, B = b, C = cost
-        // Solution: n = (-B + sqrt(B² + 4AC)) / (2A)
-        
-        const a = slope;
-        const b = initialPrice;
-        const cost = ethWei;
-        
-        const A = a / BigInt(2);
-        const B = b;
-        const C = cost;
-        
-        // Calculate discriminant: B² + 4AC
-        const discriminant = (B * B) + (BigInt(4) * A * C);
-        
-        if (discriminant >= BigInt(0)) {
-          // Calculate square root (simplified)
-          const sqrtDiscriminant = BigInt(Math.floor(Math.sqrt(Number(discriminant))));
-          
-          // Calculate the positive solution
-          const numerator = sqrtDiscriminant - B;
-          const denominator = BigInt(2) * A;
-          
-          if (denominator > BigInt(0)) {
-            bestTokens = (numerator * BigInt(1e18)) / denominator;
-          }
-        }
-      } else {
-        // Use binary search for non-zero totalSupply
-        let low = BigInt(0);
-        let high = ethWei / initialPrice;
-        
-        if (high < BigInt(1000)) {
-          high = BigInt(1000000);
-        }
-        
-        let bestDiff = ethWei;
-        
-        // Binary search for the solution
-        for (let i = 0; i < 100; i++) { // Max 100 iterations
-          const mid = (low + high) / BigInt(2);
-          
-          // Calculate cost for this number of tokens
-          // Formula: cost = a * s * n + (a * n²) / 2 + b * n
-          // Where: a = slope, s = totalSupply, b = initialPrice, n = mid
-          // Convert to token units (without decimals) like the contract does
-          const amountInTokens = mid / BigInt(1e18);
-          const sInTokens = totalSupply / BigInt(1e18);
-          
-          const term1 = slope * sInTokens * amountInTokens;
-          const term2 = (slope * amountInTokens * amountInTokens) / BigInt(2);
-          const term3 = initialPrice * amountInTokens;
-          
-          const cost = term1 + term2 + term3;
-          
-          const diff = cost > ethWei ? cost - ethWei : ethWei - cost;
-          
-          if (diff < bestDiff) {
-            bestDiff = diff;
-            bestTokens = mid;
-          }
-          
-          if (cost === ethWei) {
-            bestTokens = mid;
-            break;
-          } else if (cost < ethWei) {
-            low = mid + BigInt(1);
-          } else {
-            high = mid - BigInt(1);
-          }
-          
-          if (low > high) break;
-        }
-      }
-      
-      // Convert back to human-readable format
-      const result = (Number(bestTokens) / 1e18).toString();
-      console.log("Calculated tokens for ETH:", result, "ETH amount:", ethAmount);
-      return result;
-    } catch (error) {
-      console.error("Error calculating tokens for ETH:", error);
-      return "0";
-    }
-  };
+  // Quotes from the live curve, supply and fee rates, read at a single block and computed with lib/curve.
+  // Non-linear curves are only approximated off-chain, so the amounts the transaction is checked
+  // against come from the contract's own math instead.
+  const quoteFromCurve = async (side: TradeSide, mode: TradeMode, amountWei: bigint): Promise<TradeQuote | null> => {
+    if (!publicClient || !contractAddress) throw new Error("No public client or token");
 
-  const calculateEthForTokens = async (tokenAmount: string) => {
-    if (!publicClient) return "0";
-    
-    try {
-      const tokenWei = BigInt(Math.floor(parseFloat(tokenAmount) * 1e18));
-      const cost = await readCalculateCost(publicClient, tokenWei);
-      return (Number(cost) / 1e18).toString();
-    } catch {
-      return "0";
-    }
-  };
+    const { curve, fees, graduation, totalSupply } = await readTokenSnapshot(publicClient, contractAddress);
+    let quote = quoteTrade(curve, totalSupply, side, mode, amountWei, fees);
 
-  const calculateRateForOneEth = async () => {
-    const result = await calculateTokensForEth("1.0");
-    console.log("Rate for 1 ETH:", result);
-    return result;
-  };
+    // Buys on a capped curve stop at the supply left before it graduates
+    const capacity = side === "buy" ? remainingSupply(graduation, totalSupply) : null;
+    if (capacity === BigInt(0)) throw new Error("This curve has graduated: minting is closed");
+    if (quote && capacity !== null) quote = capBuyQuote(curve, totalSupply, quote, capacity, fees);
 
-  const calculateRefundForTokens = async (tokenAmount: string) => {
-    if (!publicClient) return "0";
-    
-    try {
-      const tokenWei = BigInt(Math.floor(parseFloat(tokenAmount) * 1e18));
-      const refund = await readCalculateRefund(publicClient, tokenWei);
-      return (Number(refund) / 1e18).toString();
-    } catch {
-      return "0";
+    if (!quote || quote.tokens === BigInt(0) || isExactCurve(curve)) return quote;
+
+    if (side === "sell") {
+      const { net, protocolFee, creatorFee } = await readQuoteBurn(publicClient, quote.tokens, contractAddress);
+      return { tokens: quote.tokens, eth: net, curveEth: net + protocolFee + creatorFee, protocolFee, creatorFee };
     }
+    if (mode === "exactIn") {
+      return { ...quote, tokens: await readCalculateTokensForEth(publicClient, quote.eth, contractAddress) };
+    }
+    const { total, protocolFee, creatorFee } = await readQuoteMint(publicClient, quote.tokens, contractAddress);
+    return { tokens: quote.tokens, eth: total, curveEth: total - protocolFee - creatorFee, protocolFee, creatorFee };
+  };
+
+  // Deadlines count from the latest block's timestamp rather than the local clock, which may not match the chain's
+  const deadlineAt = async (deadlineMinutes: string) => {
+    if (!publicClient || !deadlineMinutes) return undefined;
+    const { timestamp } = await publicClient.getBlock();
+    return deadlineFrom(timestamp, deadlineMinutes);
   };
 
   const resetStates = () => {
@@ -247,10 +164,6 @@ export function useContractWrite() {
   return {
     buyTokens,
     sellTokens,
-    calculateTokensForEth,
-    calculateEthForTokens,
-    calculateRefundForTokens,
-    calculateRateForOneEth,
     buyState,
     sellState,
     error,
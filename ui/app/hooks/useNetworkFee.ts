@@ -0,0 +1,66 @@
+"use client";
+
+import { usePublicClient, useAccount, useChainId } from "wagmi";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { estimateBurnGas, estimateBuyWithEthGas, estimateMintGas, readMaxFeePerGas } from "../../lib/contract";
+import { FALLBACK_GAS_LIMITS, networkFee, type GasCall } from "../../lib/gas";
+import type { TradeMode, TradeSide } from "../../lib/quote";
+import { useContractData } from "./useContractData";
+import { useSelectedToken } from "./useSelectedToken";
+import { queryKeys } from "./queryKeys";
+
+// Estimated network fee for the pending trade, plus the ETH a buy should leave untouched for gas
+export function useNetworkFee(side: TradeSide, mode: TradeMode, tokens: bigint | null, eth: bigint | null) {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const { address } = useAccount();
+  const contractAddress = useSelectedToken();
+  const { data: contractData } = useContractData();
+  const hasTrade = !!tokens && tokens > BigInt(0) && eth !== null;
+  // Exact-in buys go through buyWithEth where the token has it (see useContractWrite), and that's what gets estimated
+  const buysWithEth = side === "buy" && mode === "exactIn" && !!contractData?.entryPoints.buyWithEth;
+  const call: GasCall = side === "buy" ? (buysWithEth ? "buyWithEth" : "mint") : "burn";
+
+  const { data: maxFeePerGas } = useQuery({
+    queryKey: queryKeys.maxFeePerGas(chainId),
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No public client");
+      return readMaxFeePerGas(publicClient);
+    },
+    enabled: !!publicClient,
+  });
+
+  const { data: gas, isFetching } = useQuery({
+    queryKey: queryKeys.tradeGas(chainId, contractAddress, address, call, tokens ?? BigInt(0), eth ?? BigInt(0)),
+    queryFn: async () => {
+      if (!publicClient || !address || !contractAddress || !tokens || eth === null) throw new Error("No public client, account, token or trade");
+      // Slippage floors are left at zero so the estimate doesn't depend on the tolerance.
+      // A call the node rejects (e.g. a buy that leaves nothing for gas) falls back to the fixed limit,
+      // which the returned fee reports as `estimated: false`. That happens on every keystroke of an
+      // invalid amount, so it isn't logged.
+      try {
+        if (call === "buyWithEth") return await estimateBuyWithEthGas(publicClient, { account: address, address: contractAddress, minTokenOut: BigInt(0), value: eth });
+        return call === "mint"
+          ? await estimateMintGas(publicClient, { account: address, address: contractAddress, amount: tokens, minTokenOut: BigInt(0), value: eth })
+          : await estimateBurnGas(publicClient, { account: address, address: contractAddress, amount: tokens, minEthOut: BigInt(0) });
+      } catch {
+        return null;
+      }
+    },
+    enabled: !!publicClient && !!address && !!contractAddress && hasTrade,
+    placeholderData: keepPreviousData,
+  });
+
+  const fallbackGas = FALLBACK_GAS_LIMITS[call];
+  const fee = maxFeePerGas !== undefined && hasTrade
+    ? networkFee(gas ?? fallbackGas, maxFeePerGas, gas != null)
+    : null;
+
+  // Held back by "Max" on buys. Uses the fixed limit for the call Max sends, since a max-size buy can't itself
+  // be estimated, or the current estimate if that's higher.
+  const reserveLimit = buysWithEth ? FALLBACK_GAS_LIMITS.buyWithEth : FALLBACK_GAS_LIMITS.mint;
+  const reserveGas = buysWithEth && gas != null && gas > reserveLimit ? gas : reserveLimit;
+  const gasReserve = maxFeePerGas !== undefined ? networkFee(reserveGas, maxFeePerGas, false).fee : undefined;
+
+  return { fee, gasReserve, isEstimating: isFetching };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useAccount, useChainId, useWatchBlockNumber, useWatchContractEvent } from "wagmi";
+import { useQueryClient } from "@tanstack/react-query";
+import { isAddressEqual, zeroAddress, type Address } from "viem";
+import { linearBondingTokenAbi } from "../../lib/contract";
+import { useSelectedToken } from "./useSelectedToken";
+import { queryKeys } from "./queryKeys";
+
+const involves = (account: Address, from?: Address, to?: Address) =>
+  (!!from && isAddressEqual(from, account)) || (!!to && isAddressEqual(to, account));
+
+// Keeps the selected token's queries fresh by invalidating them as events arrive, instead of polling
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient();
+  const chainId = useChainId();
+  const { address } = useAccount();
+  const contractAddress = useSelectedToken();
+
+  // Mints and burns move supply, price and trade history; any transfer can move a watched balance
+  useWatchContractEvent({
+    address: contractAddress,
+    abi: linearBondingTokenAbi,
+    eventName: "Transfer",
+    chainId,
+    enabled: !!contractAddress,
+    onLogs: (logs) => {
+      const changesSupply = logs.some(({ args }) => args.from === zeroAddress || args.to === zeroAddress);
+      if (changesSupply) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.contractData(chainId, contractAddress) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tradeHistory(chainId, contractAddress) });
+      }
+
+      if (address && logs.some(({ args }) => involves(address, args.from, args.to))) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.userBalance(chainId, contractAddress, address) });
+      }
+    },
+    onError: (err) => console.error("Transfer watch failed:", err),
+  });
+
+  // ETH balances also move with gas and transfers that emit no token events, so recheck each block.
+  // Base fees move per block too.
+  useWatchBlockNumber({
+    chainId,
+    enabled: !!address,
+    onBlockNumber: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.userEthBalance(chainId, address) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maxFeePerGas(chainId) });
+    },
+  });
+}
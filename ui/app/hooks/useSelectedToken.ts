@@ -0,0 +1,15 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useChainId } from "wagmi";
+import { getAddress, isAddress, type Address } from "viem";
+import { getDefaultTokenAddress } from "../../lib/contract";
+
+// The token picked by the /token/[address] route, or the current chain's default token elsewhere.
+// Undefined when the chain has no token deployed.
+export function useSelectedToken(): Address | undefined {
+  const params = useParams<{ address?: string }>();
+  const chainId = useChainId();
+  const address = params?.address;
+  return address && isAddress(address) ? getAddress(address) : getDefaultTokenAddress(chainId);
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { usePublicClient, useWalletClient, useAccount, useChainId } from "wagmi";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type Address } from "viem";
+import { findFactoryAddress, getFactoryAddress, readFactoryProtocolFeeBps, writeCreateToken } from "../../lib/contract";
+import { decodeError, type DecodedError } from "../../lib/errors";
+import { useTransactions } from "./useTransactions";
+import { queryKeys } from "./queryKeys";
+
+type TransactionState = "idle" | "loading" | "success" | "error";
+
+type LaunchParams = {
+  name: string;
+  symbol: string;
+  initialPrice: bigint; // wei
+  slope: bigint; // wei per token
+  creatorFeeBps: bigint; // paid to the launching wallet on every mint and burn
+};
+
+export function useTokenFactory() {
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { track } = useTransactions();
+
+  const [launchState, setLaunchState] = useState<TransactionState>("idle");
+  const [error, setError] = useState<DecodedError | null>(null);
+
+  // Chains without a factory (e.g. Sepolia, which only has the original token) can't launch at all
+  const factoryAddress = findFactoryAddress(chainId);
+
+  // The creator fee has to fit under MAX_FEE_BPS together with this
+  const { data: protocolFeeBps, error: protocolFeeError } = useQuery({
+    queryKey: queryKeys.factoryProtocolFee(chainId),
+    queryFn: async () => {
+      if (!publicClient || !factoryAddress) throw new Error("No public client or factory");
+      return readFactoryProtocolFeeBps(publicClient, factoryAddress);
+    },
+    enabled: !!publicClient && !!factoryAddress,
+  });
+
+  // Deploys a new curve and resolves with its address
+  const launchToken = async ({ name, symbol, initialPrice, slope, creatorFeeBps }: LaunchParams): Promise<Address | undefined> => {
+    if (!publicClient || !walletClient || !address) {
+      setError({ message: "Wallet not connected" });
+      return;
+    }
+
+    setLaunchState("loading");
+    setError(null);
+
+    try {
+      const { token } = await writeCreateToken({
+        publicClient,
+        walletClient,
+        account: address,
+        address: getFactoryAddress(chainId),
+        name,
+        symbol,
+        initialPrice,
+        slope,
+        creatorFeeBps,
+        onSubmitted: (hash) => track({ hash, chainId, account: address, description: `Launch ${symbol}` }),
+      });
+
+      setLaunchState("success");
+      return token;
+    } catch (err) {
+      setError(decodeError(err, "Token launch failed"));
+      setLaunchState("error");
+      throw err;
+    }
+  };
+
+  const resetState = () => {
+    setLaunchState("idle");
+    setError(null);
+  };
+
+  return {
+    launchToken,
+    launchState,
+    error,
+    resetState,
+    protocolFeeBps,
+    protocolFeeError,
+    hasFactory: !!factoryAddress,
+    isConnected: !!address,
+  };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { usePublicClient, useChainId } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { readCurve, readFeeRates } from "../../lib/contract";
+import { findToken } from "../../lib/deployments";
+import {
+  findDeployBlock,
+  loadTradeHistory,
+  saveTradeHistory,
+  syncTradeHistory,
+  type TradeHistory,
+} from "../../lib/trades";
+import { useSelectedToken } from "./useSelectedToken";
+import { queryKeys } from "./queryKeys";
+
+export function useTradeHistory() {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const contractAddress = useSelectedToken();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tradeHistory(chainId, contractAddress),
+    queryFn: async () => {
+      if (!publicClient || !contractAddress) throw new Error("No public client or token");
+
+      // Resume from the cached cursor; only a cold cache has to look up the deployment block
+      let history: TradeHistory | null = loadTradeHistory(chainId, contractAddress);
+      if (!history) {
+        const knownDeployBlock = findToken(chainId, contractAddress)?.deployBlock;
+        const deployBlock = knownDeployBlock !== undefined
+          ? BigInt(knownDeployBlock)
+          : await findDeployBlock(publicClient, contractAddress);
+        history = { deployBlock, cursor: deployBlock - BigInt(1), supply: BigInt(0), trades: [] };
+      }
+
+      const [curve, fees, latestBlock] = await Promise.all([
+        readCurve(publicClient, contractAddress),
+        readFeeRates(publicClient, contractAddress),
+        publicClient.getBlockNumber(),
+      ]);
+
+      const synced = await syncTradeHistory(publicClient, contractAddress, curve, history, latestBlock, fees);
+      saveTradeHistory(chainId, contractAddress, synced);
+
+      // Newest first for display
+      return [...synced.trades].reverse();
+    },
+    enabled: !!publicClient && !!contractAddress,
+  });
+
+  return {
+    trades: data,
+    isLoading,
+    error,
+  };
+}
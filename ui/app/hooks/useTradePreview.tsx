@@ -0,0 +1,33 @@
+"use client";
+
+import { createContext, useContext, useState, type ReactNode } from "react";
+
+// The trade currently being entered in the swap card, in token wei.
+// Lets the chart shade the part of the curve the trade would cover.
+export type TradePreview = {
+  side: "buy" | "sell";
+  amount: bigint;
+};
+
+type TradePreviewContextValue = {
+  preview: TradePreview | null;
+  setPreview: (preview: TradePreview | null) => void;
+};
+
+const TradePreviewContext = createContext<TradePreviewContextValue | null>(null);
+
+export function TradePreviewProvider({ children }: { children: ReactNode }) {
+  const [preview, setPreview] = useState<TradePreview | null>(null);
+
+  return (
+    <TradePreviewContext.Provider value={{ preview, setPreview }}>
+      {children}
+    </TradePreviewContext.Provider>
+  );
+}
+
+export function useTradePreview() {
+  const context = useContext(TradePreviewContext);
+  if (!context) throw new Error("useTradePreview must be used inside TradePreviewProvider");
+  return context;
+}
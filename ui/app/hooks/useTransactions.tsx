@@ -0,0 +1,93 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useConfig } from "wagmi";
+import { useQueryClient } from "@tanstack/react-query";
+import { getPublicClient } from "wagmi/actions";
+import { type Address, type Hash } from "viem";
+import {
+  loadTransactions,
+  saveTransactions,
+  watchTransaction,
+  type TrackedTransaction,
+} from "../../lib/transactions";
+import { invalidateChainQueries } from "./queryKeys";
+
+type TrackParams = {
+  hash: Hash;
+  chainId: number;
+  account: Address;
+  description: string;
+};
+
+type TransactionsContextValue = {
+  transactions: TrackedTransaction[];
+  track: (params: TrackParams) => void;
+  clear: () => void;
+};
+
+const TransactionsContext = createContext<TransactionsContextValue | null>(null);
+
+export function TransactionProvider({ children }: { children: ReactNode }) {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const loaded = useRef(false);
+  const watching = useRef(new Set<Hash>());
+
+  // Read persisted transactions after mount so server and client render the same markup
+  useEffect(() => {
+    setTransactions(loadTransactions());
+    loaded.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (loaded.current) saveTransactions(transactions);
+  }, [transactions]);
+
+  const watch = useCallback((tx: TrackedTransaction) => {
+    if (watching.current.has(tx.hash)) return;
+    const client = getPublicClient(config, { chainId: tx.chainId });
+    if (!client) return;
+
+    watching.current.add(tx.hash);
+    watchTransaction(client, tx)
+      .catch((err): Partial<TrackedTransaction> => {
+        console.error("Failed to watch transaction:", err);
+        return { status: "failed", updatedAt: Date.now() };
+      })
+      .then((patch) => {
+        setTransactions((list) => list.map((item) => (item.hash === tx.hash ? { ...item, ...patch } : item)));
+        // Our own trade just landed (or didn't): refresh prices and balances right away
+        invalidateChainQueries(queryClient, tx.chainId);
+      })
+      .finally(() => watching.current.delete(tx.hash));
+  }, [config, queryClient]);
+
+  // Covers both new submissions and pending transactions restored after a reload
+  useEffect(() => {
+    transactions.filter((tx) => tx.status === "pending").forEach(watch);
+  }, [transactions, watch]);
+
+  const track = useCallback(({ hash, chainId, account, description }: TrackParams) => {
+    const now = Date.now();
+    const tx: TrackedTransaction = { hash, chainId, account, description, status: "pending", submittedAt: now, updatedAt: now };
+    setTransactions((list) => [tx, ...list.filter((item) => item.hash !== hash)]);
+  }, []);
+
+  const clear = useCallback(() => {
+    setTransactions((list) => list.filter((tx) => tx.status === "pending"));
+  }, []);
+
+  return (
+    <TransactionsContext.Provider value={{ transactions, track, clear }}>
+      {children}
+    </TransactionsContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionsContext);
+  if (!context) throw new Error("useTransactions must be used inside TransactionProvider");
+  return context;
+}
@@ -0,0 +1,20 @@
+import { TopBar } from "../components/TopBar";
+import { NetworkGuard } from "../components/NetworkGuard";
+import { LaunchTokenCard } from "../components/LaunchTokenCard";
+
+export default function LaunchPage() {
+  return (
+    <div className="min-h-screen w-full px-6 py-10 sm:px-10 font-sans">
+      <TopBar />
+      <NetworkGuard />
+      <main className="max-w-3xl mx-auto space-y-6">
+        <LaunchTokenCard />
+      </main>
+      <footer className="max-w-5xl mx-auto mt-8 text-center">
+        <p className="text-sm text-base-content/60">
+          This is a demo environment for educational purposes. All tokens are testnet-only and have no real value.
+        </p>
+      </footer>
+    </div>
+  );
+}
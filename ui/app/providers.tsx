@@ -3,8 +3,11 @@
 import { ReactNode } from "react";
 import { RainbowKitProvider, getDefaultConfig, lightTheme } from "@rainbow-me/rainbowkit";
 import { WagmiProvider } from "wagmi";
-import { sepolia } from "wagmi/chains";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { TradePreviewProvider } from "./hooks/useTradePreview";
+import { TransactionProvider } from "./hooks/useTransactions";
+import { TransactionToasts } from "./components/TransactionToasts";
+import { getDefaultChain, supportedChains } from "../lib/deployments";
 
 import "@rainbow-me/rainbowkit/styles.css";
 
@@ -13,7 +16,7 @@ const wcProjectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID ?? "";
 const config = getDefaultConfig({
   appName: "EdenSwap",
   projectId: wcProjectId,
-  chains: [sepolia],
+  chains: supportedChains,
   ssr: true,
 });
 
@@ -23,8 +26,13 @@ export function Web3Providers({ children }: { children: ReactNode }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider initialChain={sepolia} theme={lightTheme()}>
-          {children}
+        <RainbowKitProvider initialChain={getDefaultChain()} theme={lightTheme()}>
+          <TransactionProvider>
+            <TradePreviewProvider>
+              {children}
+            </TradePreviewProvider>
+            <TransactionToasts />
+          </TransactionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+import { getAddress, isAddress } from "viem";
+import { TopBar } from "../../components/TopBar";
+import { NetworkGuard } from "../../components/NetworkGuard";
+import { TokenDashboard } from "../../components/TokenDashboard";
+import GlitchLogo from "../../components/GlitchLogo";
+
+export default async function TokenPage({ params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params;
+  if (!isAddress(address)) notFound();
+
+  return (
+    <div className="min-h-screen w-full px-6 py-10 sm:px-10 font-sans">
+      <TopBar />
+      <NetworkGuard />
+      <header className="max-w-5xl mx-auto mb-8 flex items-center justify-center">
+        <div className="flex items-center justify-center">
+          <div className="drop-shadow-[0_10px_6px_rgba(78,201,192,1)]">
+            <GlitchLogo />
+          </div>
+        </div>
+      </header>
+      {/* Keyed by token so switching curves starts from a clean swap form */}
+      <TokenDashboard key={getAddress(address)} />
+      <footer className="max-w-5xl mx-auto mt-8 text-center">
+        <p className="text-sm text-base-content/60">
+          This is a demo environment for educational purposes. All tokens are testnet-only and have no real value.
+        </p>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+import { getAddress, isAddress } from "viem";
+import { TopBar } from "../../../components/TopBar";
+import { NetworkGuard } from "../../../components/NetworkGuard";
+import { TradeSimulator } from "../../../components/TradeSimulator";
+
+export default async function SimulatePage({ params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params;
+  if (!isAddress(address)) notFound();
+
+  return (
+    <div className="min-h-screen w-full px-6 py-10 sm:px-10 font-sans">
+      <TopBar />
+      <NetworkGuard />
+      <main className="max-w-5xl mx-auto">
+        <TradeSimulator key={getAddress(address)} />
+      </main>
+      <footer className="max-w-5xl mx-auto mt-8 text-center">
+        <p className="text-sm text-base-content/60">
+          This is a demo environment for educational purposes. All tokens are testnet-only and have no real value.
+        </p>
+      </footer>
+    </div>
+  );
+}
@@ -1,119 +1,353 @@
-import { type Address, type PublicClient, type WalletClient } from "viem";
-
-// ABI for LinearBondingToken (updated for new contract)
-export const linearBondingTokenAbi = [
-  // ERC20 events
-  { type: "event", name: "Transfer", inputs: [
-      { name: "from", type: "address", indexed: true },
-      { name: "to", type: "address", indexed: true },
-      { name: "value", type: "uint256", indexed: false },
-    ] },
-  { type: "event", name: "Approval", inputs: [
-      { name: "owner", type: "address", indexed: true },
-      { name: "spender", type: "address", indexed: true },
-      { name: "value", type: "uint256", indexed: false },
-    ] },
-
-  // ERC20 standard functions
-  { type: "function", stateMutability: "view", name: "name", inputs: [], outputs: [{ type: "string" }] },
-  { type: "function", stateMutability: "view", name: "symbol", inputs: [], outputs: [{ type: "string" }] },
-  { type: "function", stateMutability: "pure", name: "decimals", inputs: [], outputs: [{ type: "uint8" }] },
-  { type: "function", stateMutability: "view", name: "totalSupply", inputs: [], outputs: [{ type: "uint256" }] },
-  { type: "function", stateMutability: "view", name: "balanceOf", inputs: [{ name: "account", type: "address" }], outputs: [{ type: "uint256" }] },
-  { type: "function", stateMutability: "view", name: "allowance", inputs: [{ name: "owner", type: "address" }, { name: "spender", type: "address" }], outputs: [{ type: "uint256" }] },
-
-  // Bonding curve parameters
-  { type: "function", stateMutability: "view", name: "initialPrice", inputs: [], outputs: [{ type: "uint256" }] },
-  { type: "function", stateMutability: "view", name: "slope", inputs: [], outputs: [{ type: "uint256" }] },
-
-  // Bonding curve functions
-  { type: "function", stateMutability: "view", name: "getCurrentPrice", inputs: [], outputs: [{ type: "uint256" }] },
-  { type: "function", stateMutability: "view", name: "calculateCost", inputs: [{ name: "amount", type: "uint256" }], outputs: [{ type: "uint256" }] },
-  { type: "function", stateMutability: "view", name: "calculateRefund", inputs: [{ name: "amount", type: "uint256" }], outputs: [{ type: "uint256" }] },
-
-  // Write functions (for future use)
-  { type: "function", stateMutability: "nonpayable", name: "approve", inputs: [{ name: "spender", type: "address" }, { name: "amount", type: "uint256" }], outputs: [{ type: "bool" }] },
-  { type: "function", stateMutability: "payable", name: "mintTokens", inputs: [
-      { name: "amount", type: "uint256" },
-      { name: "minTokenOut", type: "uint256" }
-    ], outputs: [] },
-  { type: "function", stateMutability: "nonpayable", name: "burnTokens", inputs: [{ name: "amount", type: "uint256" }], outputs: [] },
-] as const;
-
-export function getContractAddress(): Address {
+import { parseEventLogs, type Address, type Hash, type PublicClient, type WalletClient } from "viem";
+import { curveFromParameters, type CurveParams } from "./curve";
+import { NO_FEES, type FeeRates } from "./fees";
+import type { Graduation } from "./graduation";
+import { entryPointsFromCode, legacyTokenAbi, type TokenEntryPoints } from "./legacy";
+import { DEFAULT_CHAIN_ID, getDeployment, listTokens } from "./deployments";
+import * as tokenContract from "./generated/linearBondingToken";
+import * as factoryContract from "./generated/linearBondingTokenFactory";
+
+// ABIs and typed helpers are generated from the Foundry artifacts (npm run abi:generate).
+// Every curve token shares the IBondingCurve surface, so the linear token's ABI reads any of them.
+export const { linearBondingTokenAbi } = tokenContract;
+export const { linearBondingTokenFactoryAbi } = factoryContract;
+
+// Default token for a chain: the first entry in deployments.json.
+// NEXT_PUBLIC_TOKEN_CONTRACT still overrides it on the default chain.
+export function getDefaultTokenAddress(chainId: number = DEFAULT_CHAIN_ID): Address | undefined {
   const addr = process.env.NEXT_PUBLIC_TOKEN_CONTRACT as Address | undefined;
-  if (!addr) throw new Error("NEXT_PUBLIC_TOKEN_CONTRACT is not set");
+  if (addr && chainId === DEFAULT_CHAIN_ID) return addr;
+  return listTokens(chainId)[0]?.address;
+}
+
+export function getContractAddress(chainId: number = DEFAULT_CHAIN_ID): Address {
+  const addr = getDefaultTokenAddress(chainId);
+  if (!addr) throw new Error(`No tokens deployed on chain ${chainId}: add one to lib/deployments.json`);
   return addr;
 }
 
+// Token factory for a chain, from deployments.json or NEXT_PUBLIC_FACTORY_CONTRACT on the default chain
+// The chain's token factory, or undefined where none is deployed
+export function findFactoryAddress(chainId: number = DEFAULT_CHAIN_ID): Address | undefined {
+  const factory = getDeployment(chainId)?.factory;
+  if (factory) return factory;
+  const addr = process.env.NEXT_PUBLIC_FACTORY_CONTRACT as Address | undefined;
+  return addr && chainId === DEFAULT_CHAIN_ID ? addr : undefined;
+}
+
+export function getFactoryAddress(chainId: number = DEFAULT_CHAIN_ID): Address {
+  const factory = findFactoryAddress(chainId);
+  if (!factory) throw new Error(`No token factory deployed on chain ${chainId}`);
+  return factory;
+}
+
 // ------------------
 // Read helpers
 // ------------------
 
 export async function readName(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "name" });
+  return tokenContract.readName(client, address);
 }
 
 export async function readSymbol(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "symbol" });
+  return tokenContract.readSymbol(client, address);
 }
 
 export async function readTotalSupply(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "totalSupply" });
+  return tokenContract.readTotalSupply(client, address);
 }
 
 export async function readInitialPrice(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "initialPrice" });
+  return tokenContract.readInitialPrice(client, address);
 }
 
 export async function readSlope(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "slope" });
+  return tokenContract.readSlope(client, address);
 }
 
 export async function readCurrentPrice(client: PublicClient, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "getCurrentPrice" });
+  return tokenContract.readGetCurrentPrice(client, address);
 }
 
 export async function readCalculateCost(client: PublicClient, amount: bigint, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "calculateCost", args: [amount] });
+  return tokenContract.readCalculateCost(client, address, amount);
 }
 
 export async function readCalculateRefund(client: PublicClient, amount: bigint, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "calculateRefund", args: [amount] });
+  return tokenContract.readCalculateRefund(client, address, amount);
+}
+
+export async function readCalculateTokensForEth(client: PublicClient, ethAmount: bigint, address = getContractAddress()) {
+  return tokenContract.readCalculateTokensForEth(client, address, ethAmount);
+}
+
+// Fee-inclusive quotes: what a mint costs in total, and what a burn nets, with the fees split out
+export async function readQuoteMint(client: PublicClient, amount: bigint, address = getContractAddress()) {
+  const [total, protocolFee, creatorFee] = await tokenContract.readQuoteMint(client, address, amount);
+  return { total, protocolFee, creatorFee };
+}
+
+export async function readQuoteBurn(client: PublicClient, amount: bigint, address = getContractAddress()) {
+  const [net, protocolFee, creatorFee] = await tokenContract.readQuoteBurn(client, address, amount);
+  return { net, protocolFee, creatorFee };
 }
 
 export async function readBalanceOf(client: PublicClient, owner: Address, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "balanceOf", args: [owner] });
+  return tokenContract.readBalanceOf(client, address, owner);
 }
 
 export async function readAllowance(client: PublicClient, owner: Address, spender: Address, address = getContractAddress()) {
-  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "allowance", args: [owner, spender] });
+  return tokenContract.readAllowance(client, address, owner, spender);
+}
+
+// Protocol fee every token the factory launches will charge
+export async function readFactoryProtocolFeeBps(client: PublicClient, address = getFactoryAddress()) {
+  return factoryContract.readProtocolFeeBps(client, address);
+}
+
+/**
+ * The token's curve from curveType() and curveParameters(). Tokens deployed before curve types
+ * existed don't have those, and are always linear.
+ */
+export async function readCurve(client: PublicClient, address = getContractAddress(), blockNumber?: bigint): Promise<CurveParams> {
+  try {
+    const [type, parameters] = await Promise.all([
+      tokenContract.readCurveType(client, address, blockNumber),
+      tokenContract.readCurveParameters(client, address, blockNumber),
+    ]);
+    return curveFromParameters(type, parameters);
+  } catch {
+    const [initialPrice, slope] = await Promise.all([
+      tokenContract.readInitialPrice(client, address, blockNumber),
+      tokenContract.readSlope(client, address, blockNumber),
+    ]);
+    return { type: "linear", initialPrice, slope };
+  }
+}
+
+/**
+ * The token's protocol and creator fee rates. Tokens deployed before fees existed don't charge any.
+ */
+export async function readFeeRates(client: PublicClient, address = getContractAddress(), blockNumber?: bigint): Promise<FeeRates> {
+  try {
+    const [protocolFeeBps, creatorFeeBps] = await Promise.all([
+      tokenContract.readProtocolFeeBps(client, address, blockNumber),
+      tokenContract.readCreatorFeeBps(client, address, blockNumber),
+    ]);
+    return { protocolFeeBps, creatorFeeBps };
+  } catch {
+    return NO_FEES;
+  }
+}
+
+/**
+ * The token's supply cap, or null when it is uncapped. Only LinearBondingToken supports a cap; other
+ * curves and older tokens don't have the getters and are always uncapped.
+ */
+export async function readGraduation(client: PublicClient, address = getContractAddress(), blockNumber?: bigint): Promise<Graduation | null> {
+  try {
+    const [maxSupply, reserveTarget, freezeBurns, graduated] = await Promise.all([
+      tokenContract.readMaxSupply(client, address, blockNumber),
+      tokenContract.readReserveTarget(client, address, blockNumber),
+      tokenContract.readFreezeBurnsOnGraduation(client, address, blockNumber),
+      tokenContract.readGraduated(client, address, blockNumber),
+    ]);
+    return maxSupply > BigInt(0) ? { maxSupply, reserveTarget, freezeBurns, graduated } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Deployed code doesn't change, so each token's entry points are looked up once per chain
+const entryPointsCache = new Map<string, Promise<TokenEntryPoints>>();
+
+/**
+ * Which of the newer mint and burn entry points the token has (see lib/legacy). Older tokens are
+ * traded through the functions they were deployed with.
+ */
+export async function readEntryPoints(client: PublicClient, address = getContractAddress()): Promise<TokenEntryPoints> {
+  const key = `${client.chain?.id}:${address.toLowerCase()}`;
+  let entryPoints = entryPointsCache.get(key);
+  if (!entryPoints) {
+    entryPoints = client.getCode({ address }).then(entryPointsFromCode);
+    entryPointsCache.set(key, entryPoints);
+    entryPoints.catch(() => entryPointsCache.delete(key));
+  }
+  return entryPoints;
+}
+
+// ETH held by the curve, i.e. what's available for refunds. Fees owed to their recipients sit in the
+// same balance until withdrawn, so they're left out; tokens from before fees existed don't owe any.
+export async function readReserve(client: PublicClient, address = getContractAddress(), blockNumber?: bigint) {
+  const [balance, owed] = await Promise.all([
+    client.getBalance({ address, blockNumber }),
+    tokenContract.readTotalPendingFees(client, address, blockNumber).catch(() => BigInt(0)),
+  ]);
+  return balance - owed;
+}
+
+// Token state read at a single block, so supply, price and curve params always agree
+export type TokenSnapshot = {
+  name: string;
+  symbol: string;
+  totalSupply: bigint;
+  curve: CurveParams;
+  fees: FeeRates;
+  graduation: Graduation | null; // null when uncapped
+  entryPoints: TokenEntryPoints;
+  currentPrice: bigint;
+  blockNumber: bigint;
+};
+
+/**
+ * Reads the token's metadata and curve state pinned to one block (the latest unless `blockNumber` is given).
+ * Uses a multicall where the chain has Multicall3; otherwise (e.g. a bare Anvil node) falls back to
+ * individual calls pinned to the same block.
+ */
+export async function readTokenSnapshot(client: PublicClient, address = getContractAddress(), blockNumber?: bigint): Promise<TokenSnapshot> {
+  const block = blockNumber ?? (await client.getBlockNumber());
+  const token = { address, abi: linearBondingTokenAbi } as const;
+
+  const readState = async () => {
+    if (client.chain?.contracts?.multicall3) {
+      return client.multicall({
+        contracts: [
+          { ...token, functionName: "name" },
+          { ...token, functionName: "symbol" },
+          { ...token, functionName: "totalSupply" },
+          { ...token, functionName: "getCurrentPrice" },
+        ],
+        allowFailure: false,
+        blockNumber: block,
+      });
+    }
+    return Promise.all([
+      client.readContract({ ...token, functionName: "name", blockNumber: block }),
+      client.readContract({ ...token, functionName: "symbol", blockNumber: block }),
+      client.readContract({ ...token, functionName: "totalSupply", blockNumber: block }),
+      client.readContract({ ...token, functionName: "getCurrentPrice", blockNumber: block }),
+    ]);
+  };
+
+  // The curve, fees and cap are read on their own since older tokens need a fallback (see readCurve, readFeeRates, readGraduation)
+  const [[name, symbol, totalSupply, currentPrice], curve, fees, graduation, entryPoints] = await Promise.all([
+    readState(),
+    readCurve(client, address, block),
+    readFeeRates(client, address, block),
+    readGraduation(client, address, block),
+    readEntryPoints(client, address),
+  ]);
+  return { name, symbol, totalSupply, curve, fees, graduation, entryPoints, currentPrice, blockNumber: block };
+}
+
+// ------------------
+// Gas estimates
+// ------------------
+
+export async function estimateMintGas(client: PublicClient, { account, amount, minTokenOut, value, address = getContractAddress() }: { account: Address; amount: bigint; minTokenOut: bigint; value: bigint; address?: Address }) {
+  return client.estimateContractGas({ address, abi: linearBondingTokenAbi, functionName: "mintTokens", args: [amount, minTokenOut], account, value });
+}
+
+export async function estimateBuyWithEthGas(client: PublicClient, { account, minTokenOut, value, address = getContractAddress() }: { account: Address; minTokenOut: bigint; value: bigint; address?: Address }) {
+  return client.estimateContractGas({ address, abi: linearBondingTokenAbi, functionName: "buyWithEth", args: [minTokenOut], account, value });
+}
+
+export async function estimateBurnGas(client: PublicClient, { account, amount, minEthOut, address = getContractAddress() }: { account: Address; amount: bigint; minEthOut: bigint; address?: Address }) {
+  const { burnWithMinEthOut } = await readEntryPoints(client, address);
+  return burnWithMinEthOut
+    ? client.estimateContractGas({ address, abi: linearBondingTokenAbi, functionName: "burnTokens", args: [amount, minEthOut], account })
+    : client.estimateContractGas({ address, abi: legacyTokenAbi, functionName: "burnTokens", args: [amount], account });
+}
+
+// Highest per-gas price a transaction sent now should pay: EIP-1559 maxFeePerGas, or the gas price on legacy chains
+export async function readMaxFeePerGas(client: PublicClient) {
+  try {
+    const { maxFeePerGas } = await client.estimateFeesPerGas();
+    return maxFeePerGas;
+  } catch {
+    return client.getGasPrice();
+  }
 }
 
 // ------------------
 // Write helpers (simulate -> write -> wait)
 // ------------------
 
-type WriteDeps = { publicClient: PublicClient; walletClient: WalletClient; account: Address; address?: Address };
+// onSubmitted fires once the wallet has broadcast the transaction, before the receipt arrives
+type WriteDeps = { publicClient: PublicClient; walletClient: WalletClient; account: Address; address?: Address; onSubmitted?: (hash: Hash) => void };
 
-export async function writeMintTokens({ publicClient, walletClient, account, amount, minTokenOut, value, address = getContractAddress() }: WriteDeps & { amount: bigint; minTokenOut: bigint; value: bigint }) {
-  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "mintTokens", args: [amount, minTokenOut], account, value });
-  const hash = await walletClient.writeContract(request);
-  return publicClient.waitForTransactionReceipt({ hash });
+// With a deadline (a unix timestamp in seconds), mints and burns go through the deadline-checked entry
+// points and revert if they're mined after it. Tokens deployed without those entry points trade
+// without a deadline (see supportsDeadline).
+export async function writeMintTokens({
+  amount,
+  minTokenOut,
+  value,
+  deadline,
+  address = getContractAddress(),
+  ...deps
+}: WriteDeps & { amount: bigint; minTokenOut: bigint; value: bigint; deadline?: bigint }) {
+  const { mintWithDeadline } = await readEntryPoints(deps.publicClient, address);
+  return deadline === undefined || !mintWithDeadline
+    ? tokenContract.writeMintTokens({ ...deps, address, value }, amount, minTokenOut)
+    : tokenContract.writeMintTokensWithDeadline({ ...deps, address, value }, amount, minTokenOut, deadline);
 }
 
+// Spends exactly `value` wei: the contract works out how many tokens it buys and refunds any remainder.
+// Only on tokens that have buyWithEth (see TokenEntryPoints); others have to mint a quoted amount.
+export async function writeBuyWithEth({
+  minTokenOut,
+  value,
+  deadline,
+  address = getContractAddress(),
+  ...deps
+}: WriteDeps & { minTokenOut: bigint; value: bigint; deadline?: bigint }) {
+  const { buyWithEthWithDeadline } = await readEntryPoints(deps.publicClient, address);
+  return deadline === undefined || !buyWithEthWithDeadline
+    ? tokenContract.writeBuyWithEth({ ...deps, address, value }, minTokenOut)
+    : tokenContract.writeBuyWithEthWithDeadline({ ...deps, address, value }, minTokenOut, deadline);
+}
 
-export async function writeBurnTokens({ publicClient, walletClient, account, amount, address = getContractAddress() }: WriteDeps & { amount: bigint }) {
-  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "burnTokens", args: [amount], account });
-  const hash = await walletClient.writeContract(request);
-  return publicClient.waitForTransactionReceipt({ hash });
+export async function writeBurnTokens({
+  amount,
+  minEthOut,
+  deadline,
+  address = getContractAddress(),
+  ...deps
+}: WriteDeps & { amount: bigint; minEthOut: bigint; deadline?: bigint }) {
+  const { burnWithMinEthOut, burnWithDeadline } = await readEntryPoints(deps.publicClient, address);
+  if (!burnWithMinEthOut) return writeLegacyBurnTokens({ ...deps, address }, amount);
+  return deadline === undefined || !burnWithDeadline
+    ? tokenContract.writeBurnTokens({ ...deps, address }, amount, minEthOut)
+    : tokenContract.writeBurnTokensWithDeadline({ ...deps, address }, amount, minEthOut, deadline);
 }
 
-export async function writeApprove({ publicClient, walletClient, account, spender, amount, address = getContractAddress() }: WriteDeps & { spender: Address; amount: bigint }) {
-  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "approve", args: [spender, amount], account });
+// burnTokens(amount) on tokens that predate minEthOut. There's no on-chain slippage floor, so the
+// refund is whatever the curve pays when the transaction lands.
+async function writeLegacyBurnTokens({ publicClient, walletClient, account, address, onSubmitted }: WriteDeps & { address: Address }, amount: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: legacyTokenAbi, functionName: "burnTokens", args: [amount], account });
   const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
   return publicClient.waitForTransactionReceipt({ hash });
 }
 
+export async function writeApprove({ spender, amount, address = getContractAddress(), ...deps }: WriteDeps & { spender: Address; amount: bigint }) {
+  return tokenContract.writeApprove({ ...deps, address }, spender, amount);
+}
 
-
+// Deploys a token through the factory and returns the receipt along with the new token's address.
+// The factory sets the protocol fee; the creator picks their own, paid to the deploying account.
+export async function writeCreateToken({
+  name,
+  symbol,
+  initialPrice,
+  slope,
+  creatorFeeBps,
+  address = getFactoryAddress(),
+  ...deps
+}: WriteDeps & { name: string; symbol: string; initialPrice: bigint; slope: bigint; creatorFeeBps: bigint }) {
+  const receipt = await factoryContract.writeCreateToken({ ...deps, address }, name, symbol, initialPrice, slope, creatorFeeBps);
+  const [created] = parseEventLogs({ abi: linearBondingTokenFactoryAbi, eventName: "TokenCreated", logs: receipt.logs });
+  if (!created) throw new Error("TokenCreated event not found in receipt");
+  return { receipt, token: created.args.token };
+}
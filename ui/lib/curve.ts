@@ -0,0 +1,319 @@
+import { formatEther, formatWei } from "./format";
+
+// Bonding curve math for the curve shapes behind IBondingCurve.
+//
+// The linear curve is bigint-only and mirrors LinearBondingToken exactly, including
+// its rounding: prices truncate, mint costs round up (Math.Rounding.Ceil) and
+// burn refunds round down (Math.Rounding.Floor). The exponential, polynomial and
+// sigmoid curves use PRBMath fixed-point exp/ln/pow on-chain; here they are
+// evaluated in floating point, so their quotes are close but not wei-exact.
+
+export const WAD = BigInt(10) ** BigInt(18);
+
+export type CurveType = "linear" | "exponential" | "polynomial" | "sigmoid";
+
+// Same order as IBondingCurve.CurveType, so the contract's curveType() indexes into it
+export const CURVE_TYPES: readonly CurveType[] = ["linear", "exponential", "polynomial", "sigmoid"];
+
+// p(s) = initialPrice + slope * s. `type` is optional so plain { initialPrice, slope } stays a linear curve.
+export type LinearCurve = {
+  type?: "linear";
+  initialPrice: bigint; // wei per token at zero supply
+  slope: bigint; // wei per token, per token of supply
+};
+
+// p(s) = initialPrice * e^(growthRate * s)
+export type ExponentialCurve = {
+  type: "exponential";
+  initialPrice: bigint; // wei per token at zero supply
+  growthRate: bigint; // per token, 18 decimals
+};
+
+// p(s) = initialPrice + coefficient * s^exponent
+export type PolynomialCurve = {
+  type: "polynomial";
+  initialPrice: bigint; // wei per token at zero supply
+  coefficient: bigint; // wei per token, per token^exponent of supply
+  exponent: number; // 1 to 4
+};
+
+// p(s) = initialPrice + maxPrice / (1 + e^(-steepness * (s - midpoint)))
+export type SigmoidCurve = {
+  type: "sigmoid";
+  initialPrice: bigint; // wei per token, the floor the S-curve starts from
+  maxPrice: bigint; // wei the price rises by at the top of the curve
+  steepness: bigint; // per token, 18 decimals
+  midpoint: bigint; // supply at the halfway point, 18 decimals
+};
+
+export type CurveParams = LinearCurve | ExponentialCurve | PolynomialCurve | SigmoidCurve;
+
+export function curveType(params: CurveParams): CurveType {
+  return params.type ?? "linear";
+}
+
+/**
+ * Whether quotes for this curve match the contract to the wei. Only the linear curve is;
+ * callers that need exact amounts for the others should read them from the contract.
+ */
+export function isExactCurve(params: CurveParams): params is LinearCurve {
+  return curveType(params) === "linear";
+}
+
+/**
+ * Builds curve params from the contract's curveType() and curveParameters() (order per IBondingCurve).
+ */
+export function curveFromParameters(type: number, parameters: readonly bigint[]): CurveParams {
+  const [initialPrice, second, third, fourth] = parameters;
+  switch (CURVE_TYPES[type]) {
+    case "linear":
+      return { type: "linear", initialPrice, slope: second };
+    case "exponential":
+      return { type: "exponential", initialPrice, growthRate: second };
+    case "polynomial":
+      return { type: "polynomial", initialPrice, coefficient: second, exponent: Number(third) };
+    case "sigmoid":
+      return { type: "sigmoid", initialPrice, maxPrice: second, steepness: third, midpoint: fourth };
+    default:
+      throw new Error(`Unknown curve type ${type}`);
+  }
+}
+
+export const CURVE_LABELS: Record<CurveType, string> = {
+  linear: "Linear",
+  exponential: "Exponential",
+  polynomial: "Polynomial",
+  sigmoid: "Sigmoid",
+};
+
+// Price formulas with s in whole tokens, for labels
+export const CURVE_FORMULAS: Record<CurveType, string> = {
+  linear: "p(s) = p₀ + slope · s",
+  exponential: "p(s) = p₀ · e^(k · s)",
+  polynomial: "p(s) = p₀ + c · sⁿ",
+  sigmoid: "p(s) = p₀ + max / (1 + e^(−k · (s − mid)))",
+};
+
+export type CurveField = { label: string; value: string };
+
+/**
+ * The curve's parameters as labelled display values, in the order the contract reports them.
+ */
+export function curveFields(params: CurveParams, symbol: string): CurveField[] {
+  const initialPrice = { label: "Initial Price", value: `${formatEther(params.initialPrice)} ETH` };
+  switch (params.type) {
+    case "exponential":
+      return [initialPrice, { label: "Growth Rate", value: `${formatWei(params.growthRate, 16, 4)}% per token` }];
+    case "polynomial":
+      return [
+        initialPrice,
+        { label: "Coefficient", value: `${formatEther(params.coefficient, 18)} ETH` },
+        { label: "Exponent", value: String(params.exponent) },
+      ];
+    case "sigmoid":
+      return [
+        initialPrice,
+        { label: "Max Price Rise", value: `${formatEther(params.maxPrice)} ETH` },
+        { label: "Steepness", value: formatEther(params.steepness, 18) },
+        { label: "Midpoint", value: `${formatEther(params.midpoint)} ${symbol}` },
+      ];
+    default:
+      return [initialPrice, { label: "Slope", value: formatEther(params.slope, 18) }];
+  }
+}
+
+export type Rounding = "floor" | "ceil";
+
+/**
+ * Computes x * y / denominator with the requested rounding, like OpenZeppelin's Math.mulDiv.
+ */
+export function mulDiv(x: bigint, y: bigint, denominator: bigint, rounding: Rounding = "floor"): bigint {
+  if (denominator === BigInt(0)) throw new Error("mulDiv: division by zero");
+  const product = x * y;
+  const result = product / denominator;
+  if (rounding === "ceil" && product % denominator !== BigInt(0)) {
+    return result + BigInt(1);
+  }
+  return result;
+}
+
+/**
+ * Price in wei at a given supply (contract `_priceAt`); linear: p(s) = initialPrice + (slope * s) / 1e18.
+ */
+export function priceAt(params: CurveParams, supply: bigint): bigint {
+  if (isExactCurve(params)) return params.initialPrice + (params.slope * supply) / WAD;
+  return toWei(floatPrice(params, toTokens(supply)), "floor");
+}
+
+/**
+ * Wei charged to mint `amount` tokens at `supply` (contract `calculateCost`).
+ * Throws on a zero amount, as the contract does.
+ */
+export function costToMint(params: CurveParams, supply: bigint, amount: bigint): bigint {
+  if (amount <= BigInt(0)) throw new Error("amount=0");
+  if (!isExactCurve(params)) return toWei(floatArea(params, toTokens(supply), toTokens(supply + amount)), "ceil");
+  const pStart = priceAt(params, supply);
+  const pEnd = priceAt(params, supply + amount);
+  return mulDiv(pStart + pEnd, amount, BigInt(2) * WAD, "ceil");
+}
+
+/**
+ * Wei refunded for burning `amount` tokens at `supply` (contract `calculateRefund`).
+ */
+export function refundForBurn(params: CurveParams, supply: bigint, amount: bigint): bigint {
+  if (amount === BigInt(0)) return BigInt(0);
+  if (amount < BigInt(0) || amount > supply) {
+    throw new Error("Cannot burn more tokens than the current supply");
+  }
+  if (!isExactCurve(params)) return toWei(floatArea(params, toTokens(supply - amount), toTokens(supply)), "floor");
+  const pLow = priceAt(params, supply - amount);
+  const pHigh = priceAt(params, supply);
+  return mulDiv(pLow + pHigh, amount, BigInt(2) * WAD, "floor");
+}
+
+/**
+ * Wei needed to mint exactly `amount` tokens. Same as `costToMint`, but a zero amount quotes as zero.
+ */
+export function ethForTokens(params: CurveParams, supply: bigint, amount: bigint): bigint {
+  if (amount === BigInt(0)) return BigInt(0);
+  return costToMint(params, supply, amount);
+}
+
+/**
+ * Largest token amount whose `costToMint` fits within `ethAmount` wei.
+ *
+ * The closed-form quadratic solution is only an estimate once rounding is involved, so the
+ * answer is found by binary search over the exact cost function instead, the same search the
+ * contract's calculateTokensForEth runs.
+ */
+export function tokensForEth(params: CurveParams, supply: bigint, ethAmount: bigint): bigint {
+  if (ethAmount <= BigInt(0)) return BigInt(0);
+
+  let low = BigInt(0);
+  let high = upperBoundForEth(params, supply, ethAmount);
+
+  // Invariant: cost(low) <= ethAmount (cost(0) is treated as 0) and cost(high + 1) > ethAmount
+  while (low < high) {
+    const mid = (low + high + BigInt(1)) / BigInt(2);
+    if (costToMint(params, supply, mid) <= ethAmount) {
+      low = mid;
+    } else {
+      high = mid - BigInt(1);
+    }
+  }
+  return low;
+}
+
+/**
+ * Token amount whose `refundForBurn` pays out at least `ethAmount` wei, for selling to an exact ETH target.
+ * Truncated prices make the refund a slight sawtooth rather than strictly increasing, so the search
+ * can land a few wei above the true minimum. Throws if even burning the whole supply can't refund that much.
+ */
+export function tokensForRefund(params: CurveParams, supply: bigint, ethAmount: bigint): bigint {
+  if (ethAmount <= BigInt(0)) return BigInt(0);
+  if (refundForBurn(params, supply, supply) < ethAmount) {
+    throw new Error("Refund exceeds what the whole supply can return");
+  }
+
+  // Invariant: refund(low) < ethAmount <= refund(high)
+  let low = BigInt(0);
+  let high = supply;
+  while (high - low > BigInt(1)) {
+    const mid = (low + high) / BigInt(2);
+    if (refundForBurn(params, supply, mid) >= ethAmount) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+// An amount that is guaranteed to cost more than `ethAmount`, used to bound the search.
+function upperBoundForEth(params: CurveParams, supply: bigint, ethAmount: bigint): bigint {
+  // Every token costs at least the spot price, so cost >= pStart * amount / 1e18
+  const pStart = priceAt(params, supply);
+  if (pStart > BigInt(0)) {
+    return (ethAmount * WAD) / pStart + BigInt(1);
+  }
+  // Zero spot price: start from an estimate and double until it overshoots. The linear estimate is the
+  // untruncated sqrt(2e36 * eth / slope), since truncated prices can make the real cost slightly lower
+  let bound = WAD;
+  if (isExactCurve(params)) {
+    // A free curve mints nothing useful to quote
+    if (params.slope <= BigInt(0)) return BigInt(0);
+    bound = sqrt((BigInt(2) * WAD * WAD * ethAmount) / params.slope) + BigInt(1);
+  }
+  while (costToMint(params, supply, bound) <= ethAmount) {
+    bound *= BigInt(2);
+  }
+  return bound;
+}
+
+// ------------------
+// Floating-point evaluation of the non-linear curves, in whole tokens and wei
+// ------------------
+
+type FloatCurve = ExponentialCurve | PolynomialCurve | SigmoidCurve;
+
+const toTokens = (wei: bigint) => Number(wei) / 1e18;
+
+// Rounds to whole wei; overflowing values saturate so quotes stay comparable instead of throwing
+function toWei(value: number, rounding: Rounding): bigint {
+  const bounded = Math.min(Math.max(value, 0), Number.MAX_VALUE);
+  return BigInt(rounding === "ceil" ? Math.ceil(bounded) : Math.floor(bounded));
+}
+
+// ln(1 + e^x) without overflowing for large x
+const softplus = (x: number) => (x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x)));
+
+function floatPrice(params: FloatCurve, s: number): number {
+  const p0 = Number(params.initialPrice);
+  switch (params.type) {
+    case "exponential":
+      return p0 * Math.exp(toTokens(params.growthRate) * s);
+    case "polynomial":
+      return p0 + Number(params.coefficient) * s ** params.exponent;
+    case "sigmoid": {
+      const x = toTokens(params.steepness) * (s - toTokens(params.midpoint));
+      const logistic = x >= 0 ? 1 / (1 + Math.exp(-x)) : Math.exp(x) / (1 + Math.exp(x));
+      return p0 + Number(params.maxPrice) * logistic;
+    }
+  }
+}
+
+// Area under the curve between two supplies (the contract's _reserveAt(to) - _reserveAt(from)),
+// written in closed forms that avoid subtracting two large reserves
+function floatArea(params: FloatCurve, from: number, to: number): number {
+  const p0 = Number(params.initialPrice);
+  switch (params.type) {
+    case "exponential": {
+      const k = toTokens(params.growthRate);
+      return (p0 / k) * Math.exp(k * from) * Math.expm1(k * (to - from));
+    }
+    case "polynomial": {
+      const n = params.exponent + 1;
+      return p0 * (to - from) + (Number(params.coefficient) * (to ** n - from ** n)) / n;
+    }
+    case "sigmoid": {
+      const k = toTokens(params.steepness);
+      const m = toTokens(params.midpoint);
+      return p0 * (to - from) + (Number(params.maxPrice) / k) * (softplus(k * (to - m)) - softplus(k * (from - m)));
+    }
+  }
+}
+
+/**
+ * Integer square root, rounded down (Newton's method).
+ */
+export function sqrt(value: bigint): bigint {
+  if (value < BigInt(0)) throw new Error("sqrt of negative value");
+  if (value < BigInt(2)) return value;
+  let x0 = value;
+  let x1 = (value + BigInt(1)) >> BigInt(1);
+  while (x1 < x0) {
+    x0 = x1;
+    x1 = (x0 + value / x0) >> BigInt(1);
+  }
+  return x0;
+}
@@ -0,0 +1,23 @@
+// Transaction deadlines are entered in minutes and sent as a unix timestamp in seconds.
+
+// Off by default: the deployed Sepolia token predates deadlines (see supportsDeadline in lib/legacy).
+// Offered as the placeholder for tokens that do support them.
+export const DEFAULT_DEADLINE_MINUTES = "";
+export const SUGGESTED_DEADLINE_MINUTES = "20";
+
+/**
+ * Parses a deadline setting to whole seconds, or null when it's empty, malformed or not positive.
+ */
+export function deadlineSeconds(minutes: string): bigint | null {
+  if (!/^\d*\.?\d*$/.test(minutes) || minutes === "" || minutes === ".") return null;
+  const seconds = Math.round(parseFloat(minutes) * 60);
+  return seconds > 0 ? BigInt(seconds) : null;
+}
+
+/**
+ * The timestamp a trade submitted at block time `now` must be mined by, or undefined for no deadline.
+ */
+export function deadlineFrom(now: bigint, minutes: string): bigint | undefined {
+  const seconds = deadlineSeconds(minutes);
+  return seconds === null ? undefined : now + seconds;
+}
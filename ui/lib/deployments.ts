@@ -0,0 +1,61 @@
+import { getAddress, isAddressEqual, type Address, type Chain } from "viem";
+import { anvil, sepolia } from "viem/chains";
+import manifest from "./deployments.json";
+
+// Per-chain registry of the contracts the UI knows about.
+// Edit deployments.json to add a chain or a curve; `deployBlock` is optional and only speeds up history scans.
+
+export type TokenConfig = {
+  address: Address;
+  name: string;
+  symbol: string;
+  deployBlock?: number;
+};
+
+export type Deployment = {
+  factory?: Address;
+  tokens: TokenConfig[];
+};
+
+type ManifestEntry = {
+  factory?: string;
+  tokens: { address: string; name: string; symbol: string; deployBlock?: number }[];
+};
+
+// Chains the wallet can connect to. Anvil (31337) lets the whole app run against a local node.
+export const supportedChains = [sepolia, anvil] as const satisfies readonly [Chain, ...Chain[]];
+
+export const DEFAULT_CHAIN_ID = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID ?? sepolia.id);
+
+const deployments = new Map<number, Deployment>(
+  Object.entries(manifest as Record<string, ManifestEntry>).map(([chainId, entry]) => [
+    Number(chainId),
+    {
+      factory: entry.factory ? getAddress(entry.factory) : undefined,
+      tokens: entry.tokens.map((token) => ({ ...token, address: getAddress(token.address) })),
+    },
+  ]),
+);
+
+export function getChain(chainId: number): Chain | undefined {
+  return supportedChains.find((chain) => chain.id === chainId);
+}
+
+export function getDefaultChain(): Chain {
+  return getChain(DEFAULT_CHAIN_ID) ?? sepolia;
+}
+
+// A chain counts as deployed when it has at least one token or a factory to launch one
+export function getDeployment(chainId: number): Deployment | undefined {
+  const deployment = deployments.get(chainId);
+  if (!deployment || (deployment.tokens.length === 0 && !deployment.factory)) return undefined;
+  return deployment;
+}
+
+export function listTokens(chainId: number = DEFAULT_CHAIN_ID): TokenConfig[] {
+  return deployments.get(chainId)?.tokens ?? [];
+}
+
+export function findToken(chainId: number, address: Address): TokenConfig | undefined {
+  return listTokens(chainId).find((token) => isAddressEqual(token.address, address));
+}
@@ -0,0 +1,84 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  IntrinsicGasTooLowError,
+  UserRejectedRequestError,
+} from "viem";
+
+// Turns the long, RPC-heavy errors viem throws into something a trader can act on.
+// The raw message is kept as `details` for anyone who needs the full trace.
+
+export type DecodedError = {
+  message: string;
+  details?: string;
+};
+
+// Revert strings from LinearBondingToken and LinearBondingTokenFactory
+const REVERT_MESSAGES: Record<string, string> = {
+  "Insufficient ETH sent": "The ETH sent doesn't cover the cost of these tokens. The price moved up; refresh the quote and try again.",
+  "Slippage: fewer tokens than expected": "The price moved past your slippage tolerance before your buy landed. Raise slippage or try a smaller amount.",
+  "Slippage: less ETH than expected": "The refund fell below your slippage tolerance before your sell landed. Raise slippage or try again.",
+  "Insufficient balance to burn": "You don't hold enough tokens to sell that amount.",
+  "Contract has insufficient ETH for refund": "The curve's reserve can't cover this refund right now. Try selling a smaller amount.",
+  "Cannot mint zero tokens": "That amount of ETH buys less than one unit of the token. Enter a larger amount.",
+  "Cannot burn more tokens than the current supply": "You can't sell more tokens than exist.",
+  "Refund failed": "Sending back your excess ETH failed. Make sure your wallet can receive ETH.",
+  "Refund transfer failed": "Sending the refund to your wallet failed. Make sure your wallet can receive ETH.",
+  "Name required": "Enter a token name.",
+  "Symbol required": "Enter a token symbol.",
+  "Slope too small": "The slope must be greater than 1 wei per token.",
+  "Nothing left to mint": "This curve has reached its supply cap: there are no tokens left to buy.",
+  "Not enough ETH to buy tokens": "That amount of ETH doesn't buy a single unit of the token once fees are set aside. Enter a larger amount.",
+  "Transaction expired": "Your transaction was mined after its deadline. Try again, or allow more time in the deadline setting.",
+  "Curve has graduated": "This curve has graduated: minting is closed.",
+  "Exceeds max supply": "That buy goes past the curve's supply cap. Try a smaller amount.",
+  "Burns are frozen after graduation": "This curve has graduated and froze burns, so tokens can no longer be sold back to it.",
+  "No fees to withdraw": "There are no fees waiting for this wallet to withdraw.",
+};
+
+const WRONG_NETWORK = "Your wallet is on a different network. Switch networks and try again.";
+const OUT_OF_GAS = /out of gas|gas required exceeds|intrinsic gas too low/i;
+
+/**
+ * Maps wallet, chain and contract errors to a short message, falling back to `fallback`
+ * when the error isn't one we recognise.
+ */
+export function decodeError(err: unknown, fallback: string): DecodedError {
+  const details = err instanceof Error ? err.message : undefined;
+
+  // wagmi raises its own error when the connector is on another chain
+  if (err instanceof Error && err.name === "ConnectorChainMismatchError") {
+    return { message: WRONG_NETWORK, details };
+  }
+
+  if (!(err instanceof BaseError)) {
+    return { message: fallback, details };
+  }
+
+  if (err.walk((e) => e instanceof UserRejectedRequestError)) {
+    return { message: "You rejected the request in your wallet." };
+  }
+
+  if (err.walk((e) => e instanceof ChainMismatchError)) {
+    return { message: WRONG_NETWORK, details };
+  }
+
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    const reason = reverted.reason ?? reverted.data?.errorName;
+    if (reason && REVERT_MESSAGES[reason]) return { message: REVERT_MESSAGES[reason], details };
+    return { message: reason ? `Transaction reverted: ${reason}` : "Transaction reverted.", details };
+  }
+
+  if (err.walk((e) => e instanceof InsufficientFundsError)) {
+    return { message: "Your wallet doesn't have enough ETH to cover this transaction and its gas.", details };
+  }
+
+  if (err.walk((e) => e instanceof IntrinsicGasTooLowError) || OUT_OF_GAS.test(err.message)) {
+    return { message: "The transaction ran out of gas. Try again with a higher gas limit.", details };
+  }
+
+  return { message: err.shortMessage || fallback, details };
+}
@@ -0,0 +1,56 @@
+import { mulDiv } from "./curve";
+
+// Protocol and creator fees, charged in basis points on top of mint costs and out of burn refunds.
+// Mirrors BondingCurveToken._feesOn: each fee is rounded down on its own.
+
+export type FeeRates = {
+  protocolFeeBps: bigint;
+  creatorFeeBps: bigint;
+};
+
+export type TradeFees = {
+  protocolFee: bigint; // wei
+  creatorFee: bigint; // wei
+};
+
+export const NO_FEES: FeeRates = { protocolFeeBps: BigInt(0), creatorFeeBps: BigInt(0) };
+
+// BondingCurveToken.MAX_FEE_BPS: the two rates together may not exceed 10%
+export const MAX_FEE_BPS = BigInt(1000);
+
+const BPS = BigInt(10000);
+
+export function totalFeeBps(rates: FeeRates): bigint {
+  return rates.protocolFeeBps + rates.creatorFeeBps;
+}
+
+/**
+ * Highest creator fee a new token can take alongside the factory's protocol fee.
+ */
+export function maxCreatorFeeBps(protocolFeeBps: bigint): bigint {
+  return protocolFeeBps < MAX_FEE_BPS ? MAX_FEE_BPS - protocolFeeBps : BigInt(0);
+}
+
+/**
+ * Both fees on a curve cost or refund of `amount` wei.
+ */
+export function feesOn(amount: bigint, rates: FeeRates): TradeFees {
+  return {
+    protocolFee: (amount * rates.protocolFeeBps) / BPS,
+    creatorFee: (amount * rates.creatorFeeBps) / BPS,
+  };
+}
+
+/**
+ * The part of an ETH budget left for the curve once fees are set aside, as calculateTokensForEth does.
+ */
+export function curveBudget(ethAmount: bigint, rates: FeeRates): bigint {
+  return mulDiv(ethAmount, BPS, BPS + totalFeeBps(rates));
+}
+
+/**
+ * A curve refund that nets at least `ethAmount` wei after fees. Fees round down, so it may net a wei or two more.
+ */
+export function grossRefund(ethAmount: bigint, rates: FeeRates): bigint {
+  return mulDiv(ethAmount, BPS, BPS - totalFeeBps(rates), "ceil");
+}
@@ -16,7 +16,8 @@ export function formatWei(wei: bigint, decimals: number = 18, precision: number
 
   // If after trimming, it's still too long, truncate to precision
   if (remainderStr.length > precision) {
-    remainderStr = remainderStr.substring(0, precision);
+    // Truncating can expose more trailing zeros, e.g. 1 wei at 6 digits
+    remainderStr = remainderStr.substring(0, precision).replace(/0+$/, '');
     // Ensure we don't end with a decimal point if all digits were trimmed
     if (remainderStr === '') {
       return whole.toString();
@@ -36,3 +37,18 @@ export function formatNumber(num: number): string {
   // Always show full precision up to 18 decimal places
   return num.toFixed(18).replace(/\.?0+$/, '');
 }
+
+/**
+ * Parses a decimal string such as "1.5" straight into base units, without going through floating point.
+ * Returns null unless the input is a plain non-negative decimal with at most `decimals` fraction digits.
+ */
+export function parseAmount(value: string, decimals: number = 18): bigint | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, whole, fraction = ""] = match;
+  if (whole === "" && fraction === "") return null;
+  if (fraction.length > decimals) return null;
+
+  return BigInt(whole || "0") * BigInt(10 ** decimals) + BigInt(fraction.padEnd(decimals, "0") || "0");
+}
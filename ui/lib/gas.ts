@@ -0,0 +1,40 @@
+import { mulDiv } from "./curve";
+
+// Network fee estimates for mints and burns. Fees are quoted as gas * maxFeePerGas, an upper
+// bound on what the transaction can be charged, padded so a fee bump between quote and
+// submission doesn't leave the wallet short.
+
+export type NetworkFee = {
+  gas: bigint; // estimated gas units
+  maxFeePerGas: bigint; // wei
+  fee: bigint; // wei, padded by GAS_HEADROOM_BPS
+  estimated: boolean; // false when the gas figure is the fallback limit
+};
+
+// Used when the node can't estimate the call, e.g. a buy worth the whole balance or a sell of tokens not yet held
+export const FALLBACK_GAS_LIMITS = {
+  mint: BigInt(150000),
+  buyWithEth: BigInt(300000), // searches the curve for the token amount, so it costs more than a mint
+  burn: BigInt(120000),
+};
+
+// The contract call a trade sends
+export type GasCall = keyof typeof FALLBACK_GAS_LIMITS;
+
+// 20% on top of the estimate
+export const GAS_HEADROOM_BPS = BigInt(2000);
+
+/**
+ * Worst-case fee for `gas` units at `maxFeePerGas`, padded by GAS_HEADROOM_BPS and rounded up.
+ */
+export function networkFee(gas: bigint, maxFeePerGas: bigint, estimated = true): NetworkFee {
+  const fee = mulDiv(gas * maxFeePerGas, BigInt(10000) + GAS_HEADROOM_BPS, BigInt(10000), "ceil");
+  return { gas, maxFeePerGas, fee, estimated };
+}
+
+/**
+ * ETH left to spend once `gasReserve` is held back for the transaction itself; never negative.
+ */
+export function maxSpendable(balance: bigint, gasReserve: bigint): bigint {
+  return balance > gasReserve ? balance - gasReserve : BigInt(0);
+}
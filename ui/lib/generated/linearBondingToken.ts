@@ -0,0 +1,1114 @@
+// Generated by scripts/generate-abi.ts from contracts/out/LinearBondingToken.sol/LinearBondingToken.json.
+// Do not edit by hand: rebuild the contracts and run `npm run abi:generate`.
+
+import type { Address, Hash, PublicClient, WalletClient } from "viem";
+
+export const linearBondingTokenAbi = [
+  {
+    "type": "constructor",
+    "inputs": [
+      {
+        "name": "_name",
+        "type": "string",
+        "internalType": "string"
+      },
+      {
+        "name": "_symbol",
+        "type": "string",
+        "internalType": "string"
+      },
+      {
+        "name": "_initialPrice",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_slope",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_fees",
+        "type": "tuple",
+        "internalType": "struct BondingCurveToken.FeeConfig",
+        "components": [
+          {
+            "name": "feeRecipient",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "protocolFeeBps",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "creator",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "creatorFeeBps",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ]
+      },
+      {
+        "name": "_graduation",
+        "type": "tuple",
+        "internalType": "struct LinearBondingToken.Graduation",
+        "components": [
+          {
+            "name": "maxSupply",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "reserveTarget",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "freezeBurns",
+            "type": "bool",
+            "internalType": "bool"
+          }
+        ]
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "MAX_FEE_BPS",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "allowance",
+    "inputs": [
+      {
+        "name": "owner",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "approve",
+    "inputs": [
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "balanceOf",
+    "inputs": [
+      {
+        "name": "account",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "burnTokens",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "minEthOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "burnTokensWithDeadline",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "minEthOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "deadline",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "buyWithEth",
+    "inputs": [
+      {
+        "name": "minTokenOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "buyWithEthWithDeadline",
+    "inputs": [
+      {
+        "name": "minTokenOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "deadline",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "calculateCost",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "calculateRefund",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "calculateTokensForEth",
+    "inputs": [
+      {
+        "name": "ethAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "creator",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "creatorFeeBps",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "curveParameters",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "params",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "curveType",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint8",
+        "internalType": "enum IBondingCurve.CurveType"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "decimals",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint8",
+        "internalType": "uint8"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "feeRecipient",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "freezeBurnsOnGraduation",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getCurrentPrice",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "graduated",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "initialPrice",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "maxSupply",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "mintTokens",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "minTokenOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "mintTokensWithDeadline",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "minTokenOut",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "deadline",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "name",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "string",
+        "internalType": "string"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "pendingFees",
+    "inputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "protocolFeeBps",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "quoteBurn",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "net",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "protocolFee",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "creatorFee",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "quoteMint",
+    "inputs": [
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "total",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "protocolFee",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "creatorFee",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "remainingSupply",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "reserveTarget",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "slope",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "symbol",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "string",
+        "internalType": "string"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "totalPendingFees",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "totalSupply",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "transfer",
+    "inputs": [
+      {
+        "name": "to",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "transferFrom",
+    "inputs": [
+      {
+        "name": "from",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "to",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "withdrawFees",
+    "inputs": [],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "event",
+    "name": "Approval",
+    "inputs": [
+      {
+        "name": "owner",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "spender",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "FeesCollected",
+    "inputs": [
+      {
+        "name": "trader",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "protocolFee",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "creatorFee",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "FeesWithdrawn",
+    "inputs": [
+      {
+        "name": "recipient",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "Graduated",
+    "inputs": [
+      {
+        "name": "supply",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "reserve",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "Transfer",
+    "inputs": [
+      {
+        "name": "from",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "to",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "error",
+    "name": "ERC20InsufficientAllowance",
+    "inputs": [
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "allowance",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "needed",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ERC20InsufficientBalance",
+    "inputs": [
+      {
+        "name": "sender",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "balance",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "needed",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ERC20InvalidApprover",
+    "inputs": [
+      {
+        "name": "approver",
+        "type": "address",
+        "internalType": "address"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ERC20InvalidReceiver",
+    "inputs": [
+      {
+        "name": "receiver",
+        "type": "address",
+        "internalType": "address"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ERC20InvalidSender",
+    "inputs": [
+      {
+        "name": "sender",
+        "type": "address",
+        "internalType": "address"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ERC20InvalidSpender",
+    "inputs": [
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "ReentrancyGuardReentrantCall",
+    "inputs": []
+  }
+] as const;
+
+// onSubmitted fires once the wallet has broadcast the transaction, before the receipt arrives
+export type WriteParams = { publicClient: PublicClient; walletClient: WalletClient; account: Address; address: Address; onSubmitted?: (hash: Hash) => void };
+export type PayableWriteParams = WriteParams & { value?: bigint };
+
+// ------------------
+// Read helpers
+// ------------------
+
+export async function readMAX_FEE_BPS(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "MAX_FEE_BPS", blockNumber });
+}
+
+export async function readAllowance(client: PublicClient, address: Address, owner: Address, spender: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "allowance", args: [owner, spender], blockNumber });
+}
+
+export async function readBalanceOf(client: PublicClient, address: Address, account: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "balanceOf", args: [account], blockNumber });
+}
+
+export async function readCalculateCost(client: PublicClient, address: Address, amount: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "calculateCost", args: [amount], blockNumber });
+}
+
+export async function readCalculateRefund(client: PublicClient, address: Address, amount: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "calculateRefund", args: [amount], blockNumber });
+}
+
+export async function readCalculateTokensForEth(client: PublicClient, address: Address, ethAmount: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "calculateTokensForEth", args: [ethAmount], blockNumber });
+}
+
+export async function readCreator(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "creator", blockNumber });
+}
+
+export async function readCreatorFeeBps(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "creatorFeeBps", blockNumber });
+}
+
+export async function readCurveParameters(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "curveParameters", blockNumber });
+}
+
+export async function readCurveType(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "curveType", blockNumber });
+}
+
+export async function readDecimals(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "decimals", blockNumber });
+}
+
+export async function readFeeRecipient(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "feeRecipient", blockNumber });
+}
+
+export async function readFreezeBurnsOnGraduation(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "freezeBurnsOnGraduation", blockNumber });
+}
+
+export async function readGetCurrentPrice(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "getCurrentPrice", blockNumber });
+}
+
+export async function readGraduated(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "graduated", blockNumber });
+}
+
+export async function readInitialPrice(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "initialPrice", blockNumber });
+}
+
+export async function readMaxSupply(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "maxSupply", blockNumber });
+}
+
+export async function readName(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "name", blockNumber });
+}
+
+export async function readPendingFees(client: PublicClient, address: Address, arg0: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "pendingFees", args: [arg0], blockNumber });
+}
+
+export async function readProtocolFeeBps(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "protocolFeeBps", blockNumber });
+}
+
+export async function readQuoteBurn(client: PublicClient, address: Address, amount: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "quoteBurn", args: [amount], blockNumber });
+}
+
+export async function readQuoteMint(client: PublicClient, address: Address, amount: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "quoteMint", args: [amount], blockNumber });
+}
+
+export async function readRemainingSupply(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "remainingSupply", blockNumber });
+}
+
+export async function readReserveTarget(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "reserveTarget", blockNumber });
+}
+
+export async function readSlope(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "slope", blockNumber });
+}
+
+export async function readSymbol(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "symbol", blockNumber });
+}
+
+export async function readTotalPendingFees(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "totalPendingFees", blockNumber });
+}
+
+export async function readTotalSupply(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenAbi, functionName: "totalSupply", blockNumber });
+}
+
+// ------------------
+// Write helpers (simulate -> write -> wait)
+// ------------------
+
+export async function writeApprove({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, spender: Address, value: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "approve", args: [spender, value], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeBurnTokens({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, amount: bigint, minEthOut: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "burnTokens", args: [amount, minEthOut], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeBurnTokensWithDeadline({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, amount: bigint, minEthOut: bigint, deadline: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "burnTokensWithDeadline", args: [amount, minEthOut, deadline], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeBuyWithEth({ publicClient, walletClient, account, address, onSubmitted, value }: PayableWriteParams, minTokenOut: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "buyWithEth", args: [minTokenOut], account, value });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeBuyWithEthWithDeadline({ publicClient, walletClient, account, address, onSubmitted, value }: PayableWriteParams, minTokenOut: bigint, deadline: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "buyWithEthWithDeadline", args: [minTokenOut, deadline], account, value });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeMintTokens({ publicClient, walletClient, account, address, onSubmitted, value }: PayableWriteParams, amount: bigint, minTokenOut: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "mintTokens", args: [amount, minTokenOut], account, value });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeMintTokensWithDeadline({ publicClient, walletClient, account, address, onSubmitted, value }: PayableWriteParams, amount: bigint, minTokenOut: bigint, deadline: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "mintTokensWithDeadline", args: [amount, minTokenOut, deadline], account, value });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeTransfer({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, to: Address, value: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "transfer", args: [to, value], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeTransferFrom({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, from: Address, to: Address, value: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "transferFrom", args: [from, to, value], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export async function writeWithdrawFees({ publicClient, walletClient, account, address, onSubmitted }: WriteParams) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenAbi, functionName: "withdrawFees", account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
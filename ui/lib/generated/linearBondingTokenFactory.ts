@@ -0,0 +1,221 @@
+// Generated by scripts/generate-abi.ts from contracts/out/LinearBondingTokenFactory.sol/LinearBondingTokenFactory.json.
+// Do not edit by hand: rebuild the contracts and run `npm run abi:generate`.
+
+import type { Address, Hash, PublicClient, WalletClient } from "viem";
+
+export const linearBondingTokenFactoryAbi = [
+  {
+    "type": "constructor",
+    "inputs": [
+      {
+        "name": "_feeRecipient",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "_protocolFeeBps",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "allTokens",
+    "inputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "createToken",
+    "inputs": [
+      {
+        "name": "_name",
+        "type": "string",
+        "internalType": "string"
+      },
+      {
+        "name": "_symbol",
+        "type": "string",
+        "internalType": "string"
+      },
+      {
+        "name": "_initialPrice",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_slope",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_creatorFeeBps",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "token",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "feeRecipient",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "isFactoryToken",
+    "inputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "protocolFeeBps",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "tokenCount",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "event",
+    "name": "TokenCreated",
+    "inputs": [
+      {
+        "name": "token",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "creator",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "name",
+        "type": "string",
+        "indexed": false,
+        "internalType": "string"
+      },
+      {
+        "name": "symbol",
+        "type": "string",
+        "indexed": false,
+        "internalType": "string"
+      },
+      {
+        "name": "initialPrice",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "slope",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  }
+] as const;
+
+// onSubmitted fires once the wallet has broadcast the transaction, before the receipt arrives
+export type WriteParams = { publicClient: PublicClient; walletClient: WalletClient; account: Address; address: Address; onSubmitted?: (hash: Hash) => void };
+export type PayableWriteParams = WriteParams & { value?: bigint };
+
+// ------------------
+// Read helpers
+// ------------------
+
+export async function readAllTokens(client: PublicClient, address: Address, arg0: bigint, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "allTokens", args: [arg0], blockNumber });
+}
+
+export async function readFeeRecipient(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "feeRecipient", blockNumber });
+}
+
+export async function readIsFactoryToken(client: PublicClient, address: Address, arg0: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "isFactoryToken", args: [arg0], blockNumber });
+}
+
+export async function readProtocolFeeBps(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "protocolFeeBps", blockNumber });
+}
+
+export async function readTokenCount(client: PublicClient, address: Address, blockNumber?: bigint) {
+  return client.readContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "tokenCount", blockNumber });
+}
+
+// ------------------
+// Write helpers (simulate -> write -> wait)
+// ------------------
+
+export async function writeCreateToken({ publicClient, walletClient, account, address, onSubmitted }: WriteParams, name: string, symbol: string, initialPrice: bigint, slope: bigint, creatorFeeBps: bigint) {
+  const { request } = await publicClient.simulateContract({ address, abi: linearBondingTokenFactoryAbi, functionName: "createToken", args: [name, symbol, initialPrice, slope, creatorFeeBps], account });
+  const hash = await walletClient.writeContract(request);
+  onSubmitted?.(hash);
+  return publicClient.waitForTransactionReceipt({ hash });
+}
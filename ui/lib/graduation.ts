@@ -0,0 +1,48 @@
+import { refundForBurn, type CurveParams } from "./curve";
+
+// Optional supply cap on LinearBondingToken. A reserve target is converted on-chain to the supply that
+// reaches it, so minting is always bounded by maxSupply; reserveTarget only decides how progress is shown.
+
+export type Graduation = {
+  maxSupply: bigint; // supply at which minting stops, 18 decimals
+  reserveTarget: bigint; // wei; 0 when the cap was set as a supply
+  freezeBurns: boolean; // burns stop once graduated
+  graduated: boolean;
+};
+
+export type CapProgress = {
+  kind: "supply" | "reserve";
+  current: bigint; // tokens or wei, per `kind`
+  target: bigint;
+  bps: number; // 0 to 10000
+};
+
+/**
+ * Tokens that can still be minted before the curve graduates; null when the curve is uncapped.
+ */
+export function remainingSupply(graduation: Graduation | null, supply: bigint): bigint | null {
+  if (!graduation) return null;
+  if (graduation.graduated || supply >= graduation.maxSupply) return BigInt(0);
+  return graduation.maxSupply - supply;
+}
+
+/**
+ * How far the curve is towards graduating: supply against the cap, or the reserve the curve holds
+ * at `supply` against the reserve target.
+ */
+export function capProgress(params: CurveParams, graduation: Graduation, supply: bigint): CapProgress {
+  const progress = (kind: CapProgress["kind"], current: bigint, target: bigint): CapProgress => ({
+    kind,
+    current,
+    target,
+    bps: graduation.graduated || current >= target ? 10000 : Number((current * BigInt(10000)) / target),
+  });
+
+  return graduation.reserveTarget > BigInt(0)
+    ? progress("reserve", refundForBurn(params, supply, supply), graduation.reserveTarget)
+    : progress("supply", supply, graduation.maxSupply);
+}
+
+export function burnsFrozen(graduation: Graduation | null): boolean {
+  return !!graduation && graduation.graduated && graduation.freezeBurns;
+}
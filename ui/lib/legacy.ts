@@ -0,0 +1,52 @@
+import { toFunctionSelector, type Hex } from "viem";
+
+// Tokens deployed before an entry point was added (e.g. the Sepolia token in deployments.json) don't
+// have it, and calling it reverts. Which ones a token has is read from its bytecode: Solidity's
+// dispatcher pushes every external function's selector with a PUSH4 (0x63).
+
+export type TokenEntryPoints = {
+  burnWithMinEthOut: boolean; // burnTokens(amount, minEthOut); older tokens only have burnTokens(amount)
+  mintWithDeadline: boolean; // mintTokensWithDeadline
+  burnWithDeadline: boolean; // burnTokensWithDeadline
+  buyWithEth: boolean; // buyWithEth; without it exact-ETH buys mint a quoted amount instead
+  buyWithEthWithDeadline: boolean; // buyWithEthWithDeadline
+};
+
+const SIGNATURES: Record<keyof TokenEntryPoints, string> = {
+  burnWithMinEthOut: "burnTokens(uint256,uint256)",
+  mintWithDeadline: "mintTokensWithDeadline(uint256,uint256,uint256)",
+  burnWithDeadline: "burnTokensWithDeadline(uint256,uint256,uint256)",
+  buyWithEth: "buyWithEth(uint256)",
+  buyWithEthWithDeadline: "buyWithEthWithDeadline(uint256,uint256)",
+};
+
+/**
+ * Whether trades on the token can carry a deadline at all.
+ */
+export function supportsDeadline(entryPoints: TokenEntryPoints): boolean {
+  return entryPoints.mintWithDeadline && entryPoints.burnWithDeadline;
+}
+
+// What the first deployed LinearBondingToken had, for the entry points older tokens lack
+export const legacyTokenAbi = [
+  {
+    type: "function",
+    name: "burnTokens",
+    inputs: [{ name: "amount", type: "uint256", internalType: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+/**
+ * Whether `bytecode` dispatches the function with this signature, e.g. "burnTokens(uint256,uint256)".
+ */
+export function hasFunction(bytecode: Hex | undefined, signature: string): boolean {
+  if (!bytecode) return false;
+  return bytecode.toLowerCase().includes(`63${toFunctionSelector(signature).slice(2)}`);
+}
+
+export function entryPointsFromCode(bytecode: Hex | undefined): TokenEntryPoints {
+  const entries = Object.entries(SIGNATURES) as [keyof TokenEntryPoints, string][];
+  return Object.fromEntries(entries.map(([key, signature]) => [key, hasFunction(bytecode, signature)])) as TokenEntryPoints;
+}
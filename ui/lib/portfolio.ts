@@ -0,0 +1,75 @@
+import { isAddressEqual, type Address } from "viem";
+import { WAD } from "./curve";
+import type { Trade } from "./trades";
+
+// Rebuilds one trader's position from their mints and burns using average cost accounting:
+// buys add to the cost basis, sells release it pro rata and realize the difference.
+
+export type Position = {
+  amount: bigint; // tokens bought and not yet sold, per trade history
+  costBasis: bigint; // wei paid for `amount`
+  averageCost: bigint; // wei per token, 0 when flat
+  realizedPnl: bigint; // wei, signed
+  totalSpent: bigint;
+  totalReceived: bigint;
+};
+
+/**
+ * Replays `trader`'s trades in chain order. Tokens that arrived by plain transfer have no
+ * recorded cost, so selling more than was bought treats the excess as zero cost basis.
+ */
+export function computePosition(trades: Trade[], trader: Address): Position {
+  const ordered = trades
+    .filter((trade) => isAddressEqual(trade.trader, trader))
+    .sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1));
+
+  let amount = BigInt(0);
+  let costBasis = BigInt(0);
+  let realizedPnl = BigInt(0);
+  let totalSpent = BigInt(0);
+  let totalReceived = BigInt(0);
+
+  for (const trade of ordered) {
+    if (trade.kind === "buy") {
+      amount += trade.amount;
+      costBasis += trade.eth;
+      totalSpent += trade.eth;
+      continue;
+    }
+
+    const sold = trade.amount < amount ? trade.amount : amount;
+    const releasedCost = amount > BigInt(0) ? (costBasis * sold) / amount : BigInt(0);
+
+    realizedPnl += trade.eth - releasedCost;
+    totalReceived += trade.eth;
+    costBasis -= releasedCost;
+    amount -= sold;
+  }
+
+  return {
+    amount,
+    costBasis,
+    averageCost: amount > BigInt(0) ? (costBasis * WAD) / amount : BigInt(0),
+    realizedPnl,
+    totalSpent,
+    totalReceived,
+  };
+}
+
+/**
+ * The part of a position the wallet still holds, with its share of the cost basis. Tokens received by
+ * transfer have no recorded cost and tokens transferred away are gone, so only the smaller of the
+ * traded amount and the balance is counted.
+ */
+export function heldPosition(position: Position, balance: bigint): { amount: bigint; costBasis: bigint } {
+  if (balance >= position.amount) return { amount: position.amount, costBasis: position.costBasis };
+  return { amount: balance, costBasis: position.amount > BigInt(0) ? (position.costBasis * balance) / position.amount : BigInt(0) };
+}
+
+/**
+ * Unrealized PnL: what the held part of the position would refund if sold now, minus what it cost.
+ * `liquidationValue` must price the same `amount` heldPosition returns.
+ */
+export function unrealizedPnl(held: { costBasis: bigint }, liquidationValue: bigint): bigint {
+  return liquidationValue - held.costBasis;
+}
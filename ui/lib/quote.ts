@@ -0,0 +1,123 @@
+import { WAD, ethForTokens, priceAt, refundForBurn, tokensForEth, tokensForRefund, type CurveParams } from "./curve";
+import { NO_FEES, curveBudget, feesOn, grossRefund, type FeeRates } from "./fees";
+
+// What a trade does to the price: spot before and after, the average price actually paid
+// or received, and how far that average sits from the starting spot price.
+
+export type TradeSide = "buy" | "sell";
+
+// exactIn fixes what the trader gives up (ETH for buys, tokens for sells); exactOut fixes what they receive
+export type TradeMode = "exactIn" | "exactOut";
+
+export type TradeQuote = {
+  tokens: bigint; // minted or burned
+  eth: bigint; // paid or received, fees included
+  curveEth: bigint; // what the curve itself charges or refunds, before fees
+  protocolFee: bigint; // wei
+  creatorFee: bigint; // wei
+};
+
+export type QuoteBreakdown = {
+  spotBefore: bigint; // wei per token
+  spotAfter: bigint; // wei per token
+  averagePrice: bigint; // wei per token
+  priceImpactBps: number | null; // null when the spot price is zero
+};
+
+export type PriceImpactLevel = "none" | "notice" | "warning" | "danger";
+
+// Impact, in basis points, at which each level starts
+export type PriceImpactThresholds = {
+  notice: number;
+  warning: number;
+  danger: number;
+};
+
+export const DEFAULT_PRICE_IMPACT_THRESHOLDS: PriceImpactThresholds = {
+  notice: 100, // 1%
+  warning: 500, // 5%
+  danger: 1500, // 15%
+};
+
+/**
+ * Quotes both legs of a trade from the side the trader fixed: `amount` is ETH for exact-in buys and
+ * exact-out sells, tokens otherwise. Fees are added to buys and taken out of sells, as the contract
+ * charges them; an exact-in buy spends what's left of the budget once they are set aside. Returns null
+ * when the curve can't fill the trade (selling more than the supply, or asking for more ETH than the
+ * reserve holds after fees).
+ */
+export function quoteTrade(
+  params: CurveParams,
+  supply: bigint,
+  side: TradeSide,
+  mode: TradeMode,
+  amount: bigint,
+  fees: FeeRates = NO_FEES,
+): TradeQuote | null {
+  if (amount <= BigInt(0)) return null;
+
+  if (side === "buy") {
+    const tokens = mode === "exactIn" ? tokensForEth(params, supply, curveBudget(amount, fees)) : amount;
+    const curveEth = ethForTokens(params, supply, tokens);
+    const { protocolFee, creatorFee } = feesOn(curveEth, fees);
+    // Exact-in buys send the whole budget; the contract refunds whatever rounding leaves over
+    const eth = mode === "exactIn" ? amount : curveEth + protocolFee + creatorFee;
+    return { tokens, eth, curveEth, protocolFee, creatorFee };
+  }
+
+  let tokens = amount;
+  if (mode === "exactOut") {
+    const gross = grossRefund(amount, fees);
+    if (refundForBurn(params, supply, supply) < gross) return null;
+    tokens = tokensForRefund(params, supply, gross);
+  } else if (amount > supply) {
+    return null;
+  }
+  const curveEth = refundForBurn(params, supply, tokens);
+  const { protocolFee, creatorFee } = feesOn(curveEth, fees);
+  // Exact-out sells quote the target itself; the refund can only land a few wei above it
+  const eth = mode === "exactOut" ? amount : curveEth - protocolFee - creatorFee;
+  return { tokens, eth, curveEth, protocolFee, creatorFee };
+}
+
+/**
+ * Caps a buy quote at `capacity` tokens, the supply left before a capped curve graduates. A larger buy
+ * is re-quoted as an exact-out buy of the remaining tokens, so it only sends what those cost. Returns
+ * null once nothing is left.
+ */
+export function capBuyQuote(params: CurveParams, supply: bigint, quote: TradeQuote, capacity: bigint, fees: FeeRates = NO_FEES): TradeQuote | null {
+  if (quote.tokens <= capacity) return quote;
+  return quoteTrade(params, supply, "buy", "exactOut", capacity, fees);
+}
+
+/**
+ * Breaks down a trade of `tokens` for `eth` wei against the curve at `supply`. Pass the curve's
+ * side of the trade (TradeQuote.curveEth) so fees don't read as price impact.
+ * Returns null for an empty trade or a sell larger than the supply.
+ */
+export function quoteBreakdown(params: CurveParams, supply: bigint, side: TradeSide, tokens: bigint, eth: bigint): QuoteBreakdown | null {
+  if (tokens <= BigInt(0)) return null;
+  if (side === "sell" && tokens > supply) return null;
+
+  const spotBefore = priceAt(params, supply);
+  const spotAfter = priceAt(params, side === "buy" ? supply + tokens : supply - tokens);
+  const averagePrice = (eth * WAD) / tokens;
+
+  const difference = averagePrice > spotBefore ? averagePrice - spotBefore : spotBefore - averagePrice;
+  const priceImpactBps = spotBefore > BigInt(0) ? Number((difference * BigInt(10000)) / spotBefore) : null;
+
+  return { spotBefore, spotAfter, averagePrice, priceImpactBps };
+}
+
+export function priceImpactLevel(priceImpactBps: number | null, thresholds: PriceImpactThresholds = DEFAULT_PRICE_IMPACT_THRESHOLDS): PriceImpactLevel {
+  // Trading off a zero spot price has no meaningful impact percentage; flag it for confirmation
+  if (priceImpactBps === null) return "warning";
+  if (priceImpactBps >= thresholds.danger) return "danger";
+  if (priceImpactBps >= thresholds.warning) return "warning";
+  if (priceImpactBps >= thresholds.notice) return "notice";
+  return "none";
+}
+
+export function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2)}%`;
+}
@@ -0,0 +1,213 @@
+import { toHex, type Address, type PublicClient } from "viem";
+import { ethForTokens, priceAt, type CurveParams } from "./curve";
+import { NO_FEES, feesOn, type FeeRates } from "./fees";
+import { burnsFrozen, remainingSupply, type Graduation } from "./graduation";
+import { linearBondingTokenAbi } from "./contract";
+import { parseAmount } from "./format";
+import { quoteTrade, type TradeMode, type TradeSide } from "./quote";
+
+// Off-chain sandbox for scripted trade sequences. Each step is replayed against the curve with the
+// same math the contract uses; nothing is signed or sent. Wallet balances aren't modelled, only the
+// curve's supply and ETH reserve. Fees are charged to the actors but go to their recipients, not the reserve.
+// Exact-in buys are sized by the same search as the contract's calculateTokensForEth, which is what
+// buyWithEth mints, and a capped curve graduates, stops minting and (if set to) freezes burns just as it does.
+
+export type SimStep = {
+  line: number; // 1-based line in the script
+  actor: string;
+  side: TradeSide;
+  mode: TradeMode;
+  amount: bigint; // ETH or tokens, per the mode (see quoteTrade)
+};
+
+export type ScriptError = {
+  line: number;
+  message: string;
+};
+
+export type SimState = {
+  params: CurveParams;
+  supply: bigint;
+  reserve: bigint; // wei held by the contract
+  fees?: FeeRates; // none when omitted
+  graduation?: Graduation | null; // uncapped when omitted
+};
+
+export type SimStepResult = {
+  step: SimStep;
+  supplyBefore: bigint;
+  tokens: bigint; // minted or burned; 0 when the step failed
+  eth: bigint; // paid for buys, received for sells, fees included
+  curveEth: bigint; // what moved in or out of the reserve
+  priceAfter: bigint;
+  supplyAfter: bigint;
+  reserveAfter: bigint;
+  error?: string; // failed steps leave the state unchanged
+};
+
+export type ActorSummary = {
+  actor: string;
+  tokens: bigint; // net tokens bought, signed
+  eth: bigint; // net ETH received, signed
+};
+
+export type SimSummary = {
+  results: SimStepResult[];
+  finalSupply: bigint;
+  finalPrice: bigint;
+  finalReserve: bigint;
+  actors: ActorSummary[];
+};
+
+const LINE_PATTERN = /^(\S+)\s+(buy|sell)\s+(\S+)\s+(\S+)$/i;
+
+/**
+ * Parses one trade per line as `<actor> <buy|sell> <amount> <unit>`, e.g. "alice buy 2 ETH" or "bob sell 500 NAT".
+ * The unit is ETH or the token (its symbol or "tokens") and picks the mode: spending ETH or selling tokens is
+ * exact-in, buying tokens or selling for ETH is exact-out. Blank lines and `#` comments are skipped.
+ */
+export function parseScript(script: string, tokenSymbol: string): { steps: SimStep[]; errors: ScriptError[] } {
+  const steps: SimStep[] = [];
+  const errors: ScriptError[] = [];
+  const tokenUnits = new Set([tokenSymbol.toLowerCase(), "token", "tokens"]);
+
+  script.split("\n").forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.replace(/#.*/, "").trim();
+    if (!text) return;
+
+    const match = LINE_PATTERN.exec(text);
+    if (!match) {
+      errors.push({ line, message: `Expected "<actor> <buy|sell> <amount> <ETH|${tokenSymbol}>"` });
+      return;
+    }
+
+    const [, actor, sideText, amountText, unitText] = match;
+    const side = sideText.toLowerCase() as TradeSide;
+    const unit = unitText.toLowerCase();
+    const inEth = unit === "eth";
+    if (!inEth && !tokenUnits.has(unit)) {
+      errors.push({ line, message: `Unknown unit "${unitText}": use ETH or ${tokenSymbol}` });
+      return;
+    }
+
+    const amount = parseAmount(amountText);
+    if (!amount) {
+      errors.push({ line, message: `Invalid amount "${amountText}"` });
+      return;
+    }
+
+    // Buys fix ETH in when priced in ETH; sells fix tokens in when priced in tokens
+    const mode: TradeMode = (side === "buy") === inEth ? "exactIn" : "exactOut";
+    steps.push({ line, actor, side, mode, amount });
+  });
+
+  return { steps, errors };
+}
+
+/**
+ * Replays `steps` in order from `start`. A step the contract would reject is recorded with an error
+ * and skipped, so later steps still run.
+ */
+export function simulateTrades(start: SimState, steps: SimStep[]): SimSummary {
+  const { params, fees = NO_FEES } = start;
+  let supply = start.supply;
+  let reserve = start.reserve;
+  let graduation = start.graduation ?? null;
+  const actors = new Map<string, ActorSummary>();
+  const results: SimStepResult[] = [];
+
+  for (const step of steps) {
+    const supplyBefore = supply;
+    const fail = (error: string) =>
+      results.push({ step, supplyBefore, tokens: BigInt(0), eth: BigInt(0), curveEth: BigInt(0), priceAfter: priceAt(params, supply), supplyAfter: supply, reserveAfter: reserve, error });
+
+    const quote = quoteTrade(params, supply, step.side, step.mode, step.amount, fees);
+    let tokens: bigint;
+    let eth: bigint;
+    let curveEth: bigint;
+
+    if (step.side === "buy") {
+      const capacity = remainingSupply(graduation, supply);
+      if (capacity === BigInt(0)) {
+        fail(step.mode === "exactIn" ? "Nothing left to mint" : "Curve has graduated");
+        continue;
+      }
+      if (!quote || quote.tokens === BigInt(0)) {
+        fail("Not enough ETH to buy any tokens");
+        continue;
+      }
+      if (step.mode === "exactOut" && capacity !== null && quote.tokens > capacity) {
+        fail("Exceeds max supply");
+        continue;
+      }
+      // Exact-in buys are charged the cost of the tokens they get plus fees, stopping at the cap; the rest is refunded
+      tokens = capacity !== null && quote.tokens > capacity ? capacity : quote.tokens;
+      curveEth = ethForTokens(params, supply, tokens);
+      const { protocolFee, creatorFee } = feesOn(curveEth, fees);
+      eth = curveEth + protocolFee + creatorFee;
+      supply += tokens;
+      reserve += curveEth;
+      if (graduation && supply === graduation.maxSupply) graduation = { ...graduation, graduated: true };
+    } else {
+      if (burnsFrozen(graduation)) {
+        fail("Burns are frozen after graduation");
+        continue;
+      }
+      if (!quote) {
+        fail(step.mode === "exactIn" ? "Cannot burn more tokens than the current supply" : "Refund exceeds what the whole supply can return");
+        continue;
+      }
+      if (quote.curveEth > reserve) {
+        fail("Contract has insufficient ETH for refund");
+        continue;
+      }
+      tokens = quote.tokens;
+      curveEth = quote.curveEth;
+      eth = curveEth - quote.protocolFee - quote.creatorFee;
+      supply -= tokens;
+      reserve -= curveEth;
+    }
+
+    const summary = actors.get(step.actor) ?? { actor: step.actor, tokens: BigInt(0), eth: BigInt(0) };
+    summary.tokens += step.side === "buy" ? tokens : -tokens;
+    summary.eth += step.side === "buy" ? -eth : eth;
+    actors.set(step.actor, summary);
+
+    results.push({ step, supplyBefore, tokens, eth, curveEth, priceAfter: priceAt(params, supply), supplyAfter: supply, reserveAfter: reserve });
+  }
+
+  return {
+    results,
+    finalSupply: supply,
+    finalPrice: priceAt(params, supply),
+    finalReserve: reserve,
+    actors: [...actors.values()],
+  };
+}
+
+// OpenZeppelin's ERC20 keeps _totalSupply in storage slot 2 (after _balances and _allowances)
+const TOTAL_SUPPLY_SLOT = toHex(2, { size: 32 });
+
+/**
+ * Asks a node (typically a local Anvil fork) for `calculateCost`/`calculateRefund` at each successful
+ * step's starting supply, overriding totalSupply per call so the fork's own state is left untouched.
+ * Returns the on-chain amount per result, before fees (compare with `curveEth`), or null for failed steps.
+ */
+export async function checkAgainstFork(client: PublicClient, token: Address, results: SimStepResult[]): Promise<(bigint | null)[]> {
+  return Promise.all(
+    results.map((result) => {
+      if (result.error) return null;
+      const stateOverride = [
+        { address: token, stateDiff: [{ slot: TOTAL_SUPPLY_SLOT, value: toHex(result.supplyBefore, { size: 32 }) }] },
+      ];
+      return client.readContract({
+        address: token,
+        abi: linearBondingTokenAbi,
+        functionName: result.step.side === "buy" ? "calculateCost" : "calculateRefund",
+        args: [result.tokens],
+        stateOverride,
+      });
+    }),
+  );
+}
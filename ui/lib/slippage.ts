@@ -0,0 +1,22 @@
+import { mulDiv } from "./curve";
+
+// Slippage tolerances are entered as percent strings and applied in whole basis points.
+
+const toBps = (slippagePercent: string) => {
+  const slip = Math.max(0, Math.min(100, parseFloat(slippagePercent || "0")));
+  return BigInt(Math.round(slip * 100));
+};
+
+/**
+ * Lowers an expected output by the tolerance (e.g. 1% => 0.99 * expected), rounding down.
+ */
+export function applySlippage(expected: bigint, slippagePercent: string): bigint {
+  return mulDiv(expected, BigInt(10000) - toBps(slippagePercent), BigInt(10000));
+}
+
+/**
+ * Raises a required input by the tolerance (e.g. 1% => 1.01 * required), rounding up so the headroom is never short.
+ */
+export function addSlippage(required: bigint, slippagePercent: string): bigint {
+  return mulDiv(required, BigInt(10000) + toBps(slippagePercent), BigInt(10000), "ceil");
+}
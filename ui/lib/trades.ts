@@ -0,0 +1,219 @@
+import { zeroAddress, type Address, type Hash, type PublicClient } from "viem";
+import { linearBondingTokenAbi } from "./contract";
+import { WAD, costToMint, refundForBurn, type CurveParams } from "./curve";
+import { NO_FEES, feesOn, type FeeRates } from "./fees";
+
+// Trade history is rebuilt from ERC20 Transfer events:
+// a transfer from the zero address is a mint (buy), one to the zero address is a burn (sell).
+// Refunds are internal ETH transfers that never show up in logs, so the ETH side of each
+// trade is recomputed from the curve by replaying supply from the deployment block, with the
+// token's fees added to buys and taken out of sells.
+
+export type Trade = {
+  kind: "buy" | "sell";
+  trader: Address;
+  amount: bigint; // token wei minted or burned
+  eth: bigint; // wei paid for a buy, refunded for a sell, fees included
+  price: bigint; // average curve price in wei per token, before fees
+  supplyAfter: bigint;
+  blockNumber: bigint;
+  timestamp: number; // unix seconds
+  txHash: Hash;
+  logIndex: number;
+};
+
+// The subset of a decoded Transfer log the replay needs
+export type TransferLog = {
+  from: Address;
+  to: Address;
+  value: bigint;
+  blockNumber: bigint;
+  txHash: Hash;
+  logIndex: number;
+};
+
+// Everything needed to resume a scan where the last one stopped
+export type TradeHistory = {
+  deployBlock: bigint;
+  cursor: bigint; // last block included in `trades`
+  supply: bigint; // total supply after `cursor`
+  trades: Trade[];
+};
+
+// Public RPCs commonly cap eth_getLogs ranges; stay well under the usual limits
+export const LOG_CHUNK_SIZE = BigInt(5000);
+
+/**
+ * Turns Transfer logs into trades, replaying supply from `startSupply`.
+ * Logs must be in chain order. Plain wallet-to-wallet transfers don't move supply and are skipped.
+ */
+export function buildTrades(
+  logs: TransferLog[],
+  params: CurveParams,
+  startSupply: bigint,
+  timestamps: Map<bigint, number>,
+  fees: FeeRates = NO_FEES,
+): { trades: Trade[]; supply: bigint } {
+  const trades: Trade[] = [];
+  let supply = startSupply;
+
+  for (const log of logs) {
+    const isMint = log.from === zeroAddress;
+    const isBurn = log.to === zeroAddress;
+    if (isMint === isBurn || log.value === BigInt(0)) continue;
+
+    const curveEth = isMint ? costToMint(params, supply, log.value) : refundForBurn(params, supply, log.value);
+    const { protocolFee, creatorFee } = feesOn(curveEth, fees);
+    const eth = isMint ? curveEth + protocolFee + creatorFee : curveEth - protocolFee - creatorFee;
+    supply = isMint ? supply + log.value : supply - log.value;
+
+    trades.push({
+      kind: isMint ? "buy" : "sell",
+      trader: isMint ? log.to : log.from,
+      amount: log.value,
+      eth,
+      price: (curveEth * WAD) / log.value,
+      supplyAfter: supply,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      txHash: log.txHash,
+      logIndex: log.logIndex,
+    });
+  }
+
+  return { trades, supply };
+}
+
+/**
+ * Fetches Transfer logs for [fromBlock, toBlock] in `chunkSize` block ranges.
+ */
+export async function fetchTransferLogs(
+  client: PublicClient,
+  address: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint = LOG_CHUNK_SIZE,
+): Promise<TransferLog[]> {
+  const logs: TransferLog[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = start + chunkSize - BigInt(1) < toBlock ? start + chunkSize - BigInt(1) : toBlock;
+    const events = await client.getContractEvents({
+      address,
+      abi: linearBondingTokenAbi,
+      eventName: "Transfer",
+      fromBlock: start,
+      toBlock: end,
+      strict: true,
+    });
+
+    for (const event of events) {
+      logs.push({
+        from: event.args.from,
+        to: event.args.to,
+        value: event.args.value,
+        blockNumber: event.blockNumber,
+        txHash: event.transactionHash,
+        logIndex: event.logIndex,
+      });
+    }
+  }
+
+  return logs;
+}
+
+/**
+ * Finds the block the contract was deployed in by binary searching for its code.
+ * Needs an RPC that serves historical state.
+ */
+export async function findDeployBlock(client: PublicClient, address: Address): Promise<bigint> {
+  let low = BigInt(0);
+  let high = await client.getBlockNumber();
+
+  while (low < high) {
+    const mid = (low + high) / BigInt(2);
+    const code = await client.getCode({ address, blockNumber: mid });
+    if (code && code !== "0x") {
+      high = mid;
+    } else {
+      low = mid + BigInt(1);
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Brings `history` up to `latestBlock`, scanning only blocks after its cursor.
+ */
+export async function syncTradeHistory(
+  client: PublicClient,
+  address: Address,
+  params: CurveParams,
+  history: TradeHistory,
+  latestBlock: bigint,
+  fees: FeeRates = NO_FEES,
+): Promise<TradeHistory> {
+  if (latestBlock <= history.cursor) return history;
+
+  const logs = await fetchTransferLogs(client, address, history.cursor + BigInt(1), latestBlock);
+
+  const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map((blockNumber) => client.getBlock({ blockNumber })));
+  const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+  const { trades, supply } = buildTrades(logs, params, history.supply, timestamps, fees);
+
+  return {
+    deployBlock: history.deployBlock,
+    cursor: latestBlock,
+    supply,
+    trades: [...history.trades, ...trades],
+  };
+}
+
+// ------------------
+// localStorage cache
+// ------------------
+
+// Bumped when the cached trade shape or meaning changes (v2: eth includes fees)
+const CACHE_VERSION = 2;
+
+const cacheKey = (chainId: number, address: Address) => `tradeHistory:v${CACHE_VERSION}:${chainId}:${address.toLowerCase()}`;
+
+export function loadTradeHistory(chainId: number, address: Address): TradeHistory | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.localStorage.getItem(cacheKey(chainId, address));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return {
+      deployBlock: BigInt(parsed.deployBlock),
+      cursor: BigInt(parsed.cursor),
+      supply: BigInt(parsed.supply),
+      trades: parsed.trades.map((t: Record<string, string | number>) => ({
+        ...t,
+        amount: BigInt(t.amount),
+        eth: BigInt(t.eth),
+        price: BigInt(t.price),
+        supplyAfter: BigInt(t.supplyAfter),
+        blockNumber: BigInt(t.blockNumber),
+      })),
+    };
+  } catch (err) {
+    console.error("Failed to read cached trade history:", err);
+    return null;
+  }
+}
+
+export function saveTradeHistory(chainId: number, address: Address, history: TradeHistory) {
+  if (typeof window === "undefined") return;
+
+  const serialized = JSON.stringify(history, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+  try {
+    window.localStorage.setItem(cacheKey(chainId, address), serialized);
+  } catch (err) {
+    console.error("Failed to cache trade history:", err);
+  }
+}
@@ -0,0 +1,115 @@
+import { WaitForTransactionReceiptTimeoutError, type Address, type Hash, type PublicClient } from "viem";
+
+// Submitted transactions are tracked in localStorage so a reload mid-flight doesn't lose them.
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "replaced" | "dropped";
+
+export type TrackedTransaction = {
+  hash: Hash;
+  chainId: number;
+  account: Address;
+  description: string;
+  status: TransactionStatus;
+  submittedAt: number; // unix ms
+  updatedAt: number; // unix ms
+  replacedBy?: Hash;
+};
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced",
+  dropped: "Dropped",
+};
+
+// How long to wait for a receipt before checking whether the node still knows the transaction
+export const RECEIPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Other errors while waiting (e.g. the RPC dropping out) are retried this many times, this far apart,
+// before the transaction is given up on as failed
+export const MAX_WATCH_ERRORS = 3;
+const WATCH_RETRY_DELAY_MS = 5000;
+
+// The client calls watchTransaction makes
+export type ReceiptClient = Pick<PublicClient, "waitForTransactionReceipt" | "getTransaction">;
+
+const MAX_TRACKED = 25;
+const STORAGE_KEY = "transactions:v1";
+
+/**
+ * Waits for `tx` to settle and reports the outcome. Replacements (speed-ups and cancellations)
+ * are detected while waiting; a transaction the node no longer knows about after a timeout
+ * counts as dropped, otherwise waiting starts over. Any other error is retried up to MAX_WATCH_ERRORS
+ * times before the transaction is marked failed, so it never stays pending for good.
+ */
+export async function watchTransaction(
+  client: ReceiptClient,
+  tx: TrackedTransaction,
+  retryDelayMs = WATCH_RETRY_DELAY_MS,
+): Promise<Partial<TrackedTransaction>> {
+  const replacement: { hash?: Hash; cancelled?: boolean } = {};
+  let errors = 0;
+
+  for (;;) {
+    try {
+      const receipt = await client.waitForTransactionReceipt({
+        hash: tx.hash,
+        timeout: RECEIPT_TIMEOUT_MS,
+        onReplaced: ({ reason, transaction }) => {
+          // A repriced transaction is the same call with a higher fee, so its receipt still counts;
+          // a replaced or cancelled one means our call never ran
+          replacement.hash = transaction.hash;
+          replacement.cancelled = reason !== "repriced";
+        },
+      });
+
+      if (replacement.cancelled) return { status: "replaced", replacedBy: replacement.hash, updatedAt: Date.now() };
+      return {
+        status: receipt.status === "success" ? "confirmed" : "failed",
+        replacedBy: replacement.hash,
+        updatedAt: Date.now(),
+      };
+    } catch (err) {
+      if (!(err instanceof WaitForTransactionReceiptTimeoutError)) {
+        errors += 1;
+        if (errors >= MAX_WATCH_ERRORS) return { status: "failed", updatedAt: Date.now() };
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+        continue;
+      }
+
+      const stillKnown = await client.getTransaction({ hash: tx.hash }).then(() => true, () => false);
+      if (!stillKnown) return { status: "dropped", updatedAt: Date.now() };
+    }
+  }
+}
+
+export function explorerTxUrl(explorerUrl: string | undefined, hash: Hash): string | undefined {
+  return explorerUrl ? `${explorerUrl.replace(/\/$/, "")}/tx/${hash}` : undefined;
+}
+
+// ------------------
+// localStorage persistence
+// ------------------
+
+export function loadTransactions(): TrackedTransaction[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TrackedTransaction[]) : [];
+  } catch (err) {
+    console.error("Failed to read tracked transactions:", err);
+    return [];
+  }
+}
+
+export function saveTransactions(transactions: TrackedTransaction[]) {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions.slice(0, MAX_TRACKED)));
+  } catch (err) {
+    console.error("Failed to save tracked transactions:", err);
+  }
+}
@@ -0,0 +1,92 @@
+// Local-chain plumbing shared by the dev stack (dev-chain.ts) and the integration tests:
+// building the contracts, running Anvil and deploying the factory plus a token.
+import { spawn, spawnSync, type ChildProcess } from "node:child_process";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { createPublicClient, createWalletClient, defineChain, http, type Chain, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { anvil } from "viem/chains";
+import { linearBondingTokenFactoryAbi, writeCreateToken } from "../lib/contract";
+
+export const CONTRACTS_DIR = path.resolve(__dirname, "../../contracts");
+
+// Anvil's well-known dev keys (mnemonic "test test ... junk"); never use them anywhere else
+export const ANVIL_KEYS = {
+  deployer: "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  alice: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  bob: "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+  carol: "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6",
+} as const satisfies Record<string, Hex>;
+
+// Same parameters as script/DeployLinearBondingToken.s.sol
+export const DEMO_TOKEN = { name: "Not A Token", symbol: "NAT", initialPrice: BigInt(1e13), slope: BigInt(1e12), creatorFeeBps: BigInt(0) };
+
+// The Anvil chain (31337) served on a given local port
+export function anvilChain(port = 8545): Chain {
+  return defineChain({ ...anvil, rpcUrls: { default: { http: [`http://127.0.0.1:${port}`] } } });
+}
+
+export function walletFor(key: Hex, chain: Chain) {
+  const account = privateKeyToAccount(key);
+  return { account: account.address, walletClient: createWalletClient({ account, chain, transport: http() }) };
+}
+
+export function buildContracts() {
+  const result = spawnSync("forge", ["build"], { cwd: CONTRACTS_DIR, stdio: "inherit" });
+  if (result.error) throw new Error("forge not found: install Foundry (https://book.getfoundry.sh)");
+  if (result.status !== 0) throw new Error("forge build failed");
+}
+
+function readBytecode(contract: string): Hex {
+  const artifact = JSON.parse(readFileSync(path.join(CONTRACTS_DIR, "out", `${contract}.sol`, `${contract}.json`), "utf8"));
+  return artifact.bytecode.object;
+}
+
+/**
+ * Starts a fresh Anvil node for `chain` and resolves once its RPC answers.
+ * Refuses to start if something already listens on the port, so every run begins from genesis.
+ */
+export async function startAnvil(chain: Chain): Promise<ChildProcess> {
+  const url = chain.rpcUrls.default.http[0];
+  const client = createPublicClient({ chain, transport: http() });
+  const isUp = () => client.getChainId().then(() => true, () => false);
+  if (await isUp()) throw new Error(`Something is already listening on ${url}; stop it first so the chain starts fresh`);
+
+  const node = spawn("anvil", ["--port", new URL(url).port, "--chain-id", String(chain.id)], { stdio: "ignore" });
+  let spawnError: Error | undefined;
+  node.on("error", (err) => {
+    spawnError = err;
+  });
+
+  // Wait up to ~10s for the RPC to come up
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (spawnError) throw new Error("anvil not found: install Foundry (https://book.getfoundry.sh)");
+    if (await isUp()) return node;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  node.kill();
+  throw new Error("Anvil did not start");
+}
+
+/**
+ * Deploys the factory from Anvil's first account and launches DEMO_TOKEN through it.
+ * The stack charges no fees, so quotes against it stay plain curve math.
+ * Needs a prior buildContracts() for the factory bytecode.
+ */
+export async function deployStack(chain: Chain) {
+  const publicClient = createPublicClient({ chain, transport: http() });
+  const { account, walletClient } = walletFor(ANVIL_KEYS.deployer, chain);
+
+  const hash = await walletClient.deployContract({
+    abi: linearBondingTokenFactoryAbi,
+    bytecode: readBytecode("LinearBondingTokenFactory"),
+    args: [account, BigInt(0)],
+    account: walletClient.account,
+    chain,
+  });
+  const { contractAddress: factory, blockNumber } = await publicClient.waitForTransactionReceipt({ hash });
+  if (!factory) throw new Error("Factory deployment failed");
+
+  const { token } = await writeCreateToken({ publicClient, walletClient, account, address: factory, ...DEMO_TOKEN });
+  return { factory, token, deployBlock: Number(blockNumber) };
+}
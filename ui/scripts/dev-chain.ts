@@ -0,0 +1,136 @@
+/**
+ * Local end-to-end stack in one command: starts Anvil, deploys the factory and a demo token,
+ * funds any extra wallets, seeds a few trades, checks the contracts landed where chain 31337 in
+ * lib/deployments.json expects them and then runs the UI against it.
+ *
+ *   npm run dev:local
+ *   npm run dev:local -- --fund 0xYourWallet   # top up a browser wallet (repeatable)
+ *   npm run dev:local -- --no-ui --no-seed     # just the chain and the contracts
+ *
+ * Needs Foundry (forge and anvil) on PATH. Anvil's deployer nonces are deterministic, so a fresh
+ * chain always lands the contracts at the same addresses, and those are committed to the manifest
+ * rather than rewritten on every run.
+ */
+import { spawn } from "node:child_process";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createPublicClient, createTestClient, getAddress, http, isAddress, isAddressEqual, parseEther, type Address } from "viem";
+import { readTokenSnapshot, writeBurnTokens, writeMintTokens } from "../lib/contract";
+import { getDeployment } from "../lib/deployments";
+import { quoteTrade } from "../lib/quote";
+import { parseScript } from "../lib/simulator";
+import { formatEther } from "../lib/format";
+import { ANVIL_KEYS, DEMO_TOKEN, anvilChain, buildContracts, deployStack, startAnvil, walletFor } from "./anvil";
+
+const UI_DIR = path.resolve(__dirname, "..");
+// The default port, which the UI's Anvil chain config points at
+const chain = anvilChain();
+const RPC_URL = chain.rpcUrls.default.http[0];
+
+const FUND_AMOUNT = parseEther("100");
+
+// Seed trades in the trade simulator's script format, so history, chart and portfolio have data
+const SEED_SCRIPT = `
+alice buy 1 ETH
+bob buy 500 NAT
+carol buy 2 ETH
+bob sell 200 NAT
+alice sell 0.25 ETH
+`;
+
+const publicClient = createPublicClient({ chain, transport: http() });
+const testClient = createTestClient({ chain, mode: "anvil", transport: http() });
+
+async function seedTrades(token: Address) {
+  const { steps, errors } = parseScript(SEED_SCRIPT, DEMO_TOKEN.symbol);
+  if (errors.length > 0) throw new Error(`Bad seed script: ${errors.map((error) => error.message).join("; ")}`);
+
+  for (const step of steps) {
+    const { account, walletClient } = walletFor(ANVIL_KEYS[step.actor as keyof typeof ANVIL_KEYS], chain);
+    const { curve, fees, totalSupply } = await readTokenSnapshot(publicClient, token);
+    const quote = quoteTrade(curve, totalSupply, step.side, step.mode, step.amount, fees);
+    if (!quote) throw new Error(`Seed trade on line ${step.line} can't be filled`);
+
+    if (step.side === "buy") {
+      await writeMintTokens({ publicClient, walletClient, account, address: token, amount: quote.tokens, minTokenOut: quote.tokens, value: quote.eth });
+    } else {
+      await writeBurnTokens({ publicClient, walletClient, account, address: token, amount: quote.tokens, minEthOut: quote.eth });
+    }
+    console.log(`  ${step.actor} ${step.side === "buy" ? "bought" : "sold"} ${formatEther(quote.tokens, 2)} ${DEMO_TOKEN.symbol} for ${formatEther(quote.eth, 4)} ETH`);
+  }
+}
+
+// The manifest is tracked, so it's only checked here; a mismatch means the deploy order changed
+function checkManifest(factory: Address, token: Address, deployBlock: number) {
+  const deployment = getDeployment(chain.id);
+  const listed = deployment?.tokens[0];
+  if (deployment?.factory && isAddressEqual(deployment.factory, factory) && listed && isAddressEqual(listed.address, token)) return;
+  throw new Error(
+    `Chain ${chain.id} in lib/deployments.json doesn't match this deployment; set its factory to ${factory} and its token to ${token} (deployBlock ${deployBlock})`,
+  );
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      fund: { type: "string", multiple: true, default: [] },
+      "no-seed": { type: "boolean", default: false },
+      "no-ui": { type: "boolean", default: false },
+    },
+  });
+  const fund = (values.fund ?? []).map((address) => {
+    if (!isAddress(address)) throw new Error(`Invalid --fund address: ${address}`);
+    return getAddress(address);
+  });
+
+  console.log("Building contracts...");
+  buildContracts();
+  const node = await startAnvil(chain);
+  const stop = () => {
+    node.kill();
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  console.log(`Anvil running at ${RPC_URL}`);
+
+  try {
+    const { factory, token, deployBlock } = await deployStack(chain);
+    console.log(`Factory deployed at ${factory}`);
+    console.log(`${DEMO_TOKEN.name} (${DEMO_TOKEN.symbol}) deployed at ${token}`);
+    checkManifest(factory, token, deployBlock);
+
+    for (const address of fund) {
+      await testClient.setBalance({ address, value: FUND_AMOUNT });
+      console.log(`Funded ${address} with ${formatEther(FUND_AMOUNT)} ETH`);
+    }
+
+    if (!values["no-seed"]) {
+      console.log("Seeding trades...");
+      await seedTrades(token);
+    }
+  } catch (err) {
+    node.kill();
+    throw err;
+  }
+
+  if (values["no-ui"]) {
+    console.log("Chain ready. Press Ctrl+C to stop.");
+    return;
+  }
+
+  const ui = spawn("npx", ["next", "dev", "--turbopack"], {
+    cwd: UI_DIR,
+    stdio: "inherit",
+    env: { ...process.env, NEXT_PUBLIC_DEFAULT_CHAIN_ID: String(chain.id) },
+  });
+  ui.on("exit", (code) => {
+    node.kill();
+    process.exit(code ?? 0);
+  });
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+/**
+ * Generates lib/generated/<contract>.ts from the Foundry artifacts: the ABI `as const`, plus a typed
+ * `read*` helper per view function and a simulate -> write -> wait `write*` helper per state-changing one.
+ *
+ *   (cd ../contracts && forge build)
+ *   npm run abi:generate   # rewrite lib/generated
+ *   npm run abi:check      # exit non-zero if lib/generated no longer matches the compiled contracts
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+const UI_DIR = path.resolve(__dirname, "..");
+const ARTIFACTS_DIR = path.resolve(UI_DIR, "../contracts/out");
+const OUTPUT_DIR = path.join(UI_DIR, "lib/generated");
+
+const CONTRACTS = ["LinearBondingToken", "LinearBondingTokenFactory"];
+
+type AbiParameter = { name: string; type: string; internalType?: string; indexed?: boolean; components?: AbiParameter[] };
+type AbiItem = {
+  type: "constructor" | "function" | "event" | "error" | "fallback" | "receive";
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: "pure" | "view" | "nonpayable" | "payable";
+  anonymous?: boolean;
+};
+
+// Deterministic order regardless of how solc lists the entries
+const TYPE_ORDER = ["constructor", "function", "event", "error", "fallback", "receive"];
+// Helper parameter names the contract's own argument names must not shadow
+const READ_RESERVED = ["client", "address", "blockNumber"];
+const WRITE_RESERVED = ["publicClient", "walletClient", "account", "address", "onSubmitted"];
+
+const camel = (name: string) => name.charAt(0).toLowerCase() + name.slice(1);
+const pascal = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// Same mapping viem uses when inferring types from an ABI
+function tsType(param: AbiParameter): string {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) return `readonly ${tsType({ ...param, type: array[1] })}[]`;
+  if (param.type === "address") return "Address";
+  if (param.type === "bool") return "boolean";
+  if (param.type === "string") return "string";
+  if (param.type.startsWith("bytes")) return "Hex";
+  const int = /^u?int(\d*)$/.exec(param.type);
+  if (int) return Number(int[1] || 256) <= 48 ? "number" : "bigint";
+  throw new Error(`Unsupported ABI type ${param.type} (${param.name || "unnamed"})`);
+}
+
+const byName = (a: AbiItem, b: AbiItem) => ((a.name ?? "") < (b.name ?? "") ? -1 : (a.name ?? "") > (b.name ?? "") ? 1 : 0);
+
+function argNames(inputs: AbiParameter[], reserved: string[]): string[] {
+  return inputs.map((input, index) => {
+    const name = input.name.replace(/^_+/, "") || `arg${index}`;
+    return reserved.includes(name) ? `${name}Arg` : name;
+  });
+}
+
+function readHelper(abiName: string, fn: AbiItem): string {
+  const names = argNames(fn.inputs ?? [], READ_RESERVED);
+  const params = names.map((name, i) => `, ${name}: ${tsType(fn.inputs![i])}`).join("");
+  const args = names.length > 0 ? ` args: [${names.join(", ")}],` : "";
+  return [
+    `export async function read${pascal(fn.name!)}(client: PublicClient, address: Address${params}, blockNumber?: bigint) {`,
+    `  return client.readContract({ address, abi: ${abiName}, functionName: "${fn.name}",${args} blockNumber });`,
+    `}`,
+  ].join("\n");
+}
+
+function writeHelper(abiName: string, fn: AbiItem): string {
+  const payable = fn.stateMutability === "payable";
+  const names = argNames(fn.inputs ?? [], payable ? [...WRITE_RESERVED, "value"] : WRITE_RESERVED);
+  const params = names.map((name, i) => `, ${name}: ${tsType(fn.inputs![i])}`).join("");
+  const args = names.length > 0 ? ` args: [${names.join(", ")}],` : "";
+  return [
+    `export async function write${pascal(fn.name!)}({ publicClient, walletClient, account, address, onSubmitted${payable ? ", value" : ""} }: ${payable ? "PayableWriteParams" : "WriteParams"}${params}) {`,
+    `  const { request } = await publicClient.simulateContract({ address, abi: ${abiName}, functionName: "${fn.name}",${args} account${payable ? ", value" : ""} });`,
+    `  const hash = await walletClient.writeContract(request);`,
+    `  onSubmitted?.(hash);`,
+    `  return publicClient.waitForTransactionReceipt({ hash });`,
+    `}`,
+  ].join("\n");
+}
+
+function generate(contract: string): string {
+  const artifactPath = path.join(ARTIFACTS_DIR, `${contract}.sol`, `${contract}.json`);
+  if (!existsSync(artifactPath)) throw new Error(`Missing ${path.relative(UI_DIR, artifactPath)}: run forge build in contracts/ first`);
+
+  const abi = (JSON.parse(readFileSync(artifactPath, "utf8")).abi as AbiItem[])
+    .slice()
+    .sort((a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || byName(a, b));
+  const abiName = `${camel(contract)}Abi`;
+  const functions = abi.filter((item) => item.type === "function");
+
+  const seen = new Set<string>();
+  for (const fn of functions) {
+    if (seen.has(fn.name!)) throw new Error(`${contract}.${fn.name} is overloaded; give the overloads distinct names`);
+    seen.add(fn.name!);
+  }
+
+  const reads = functions.filter((fn) => fn.stateMutability === "view" || fn.stateMutability === "pure");
+  const writes = functions.filter((fn) => fn.stateMutability === "nonpayable" || fn.stateMutability === "payable");
+
+  const readCode = reads.map((fn) => readHelper(abiName, fn)).join("\n\n");
+  const writeCode = writes.map((fn) => writeHelper(abiName, fn)).join("\n\n");
+  const viemTypes = ["Address", "Hash", ...(/\bHex\b/.test(readCode + writeCode) ? ["Hex"] : []), "PublicClient", "WalletClient"];
+
+  return [
+    `// Generated by scripts/generate-abi.ts from contracts/out/${contract}.sol/${contract}.json.`,
+    `// Do not edit by hand: rebuild the contracts and run \`npm run abi:generate\`.`,
+    ``,
+    `import type { ${viemTypes.join(", ")} } from "viem";`,
+    ``,
+    `export const ${abiName} = ${JSON.stringify(abi, null, 2)} as const;`,
+    ``,
+    `// onSubmitted fires once the wallet has broadcast the transaction, before the receipt arrives`,
+    `export type WriteParams = { publicClient: PublicClient; walletClient: WalletClient; account: Address; address: Address; onSubmitted?: (hash: Hash) => void };`,
+    `export type PayableWriteParams = WriteParams & { value?: bigint };`,
+    ``,
+    `// ------------------`,
+    `// Read helpers`,
+    `// ------------------`,
+    ``,
+    readCode,
+    ``,
+    `// ------------------`,
+    `// Write helpers (simulate -> write -> wait)`,
+    `// ------------------`,
+    ``,
+    writeCode,
+    ``,
+  ].join("\n");
+}
+
+function main() {
+  const check = process.argv.includes("--check");
+  const stale: string[] = [];
+
+  for (const contract of CONTRACTS) {
+    const file = path.join(OUTPUT_DIR, `${camel(contract)}.ts`);
+    const next = generate(contract);
+    const current = existsSync(file) ? readFileSync(file, "utf8") : null;
+    if (current === next) continue;
+
+    if (check) {
+      stale.push(path.relative(UI_DIR, file));
+    } else {
+      mkdirSync(OUTPUT_DIR, { recursive: true });
+      writeFileSync(file, next);
+      console.log(`Wrote ${path.relative(UI_DIR, file)}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error(`Out of date with the compiled contracts: ${stale.join(", ")}. Run npm run abi:generate.`);
+    process.exit(1);
+  }
+  if (check) console.log("Generated ABIs match the compiled contracts");
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
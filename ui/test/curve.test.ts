@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  WAD,
+  costToMint,
+  curveFields,
+  curveFromParameters,
+  ethForTokens,
+  isExactCurve,
+  mulDiv,
+  priceAt,
+  refundForBurn,
+  sqrt,
+  tokensForEth,
+  tokensForRefund,
+  type CurveParams,
+  type LinearCurve,
+} from "../lib/curve";
+
+// Same parameters as contracts/test/LinearBondingToken.t.sol
+const TEST_PARAMS: LinearCurve = { initialPrice: BigInt(1e15), slope: BigInt(1e12) };
+
+// Straight transcriptions of the Solidity formulas, kept deliberately naive
+const contractPriceAt = ({ initialPrice, slope }: LinearCurve, s: bigint) => initialPrice + (slope * s) / WAD;
+const contractCalculateCost = (p: LinearCurve, s: bigint, amount: bigint) => {
+  const numerator = (contractPriceAt(p, s) + contractPriceAt(p, s + amount)) * amount;
+  const denominator = BigInt(2) * WAD;
+  return (numerator + denominator - BigInt(1)) / denominator;
+};
+const contractCalculateRefund = (p: LinearCurve, s: bigint, amount: bigint) =>
+  ((contractPriceAt(p, s - amount) + contractPriceAt(p, s)) * amount) / (BigInt(2) * WAD);
+
+const params = fc.record({
+  initialPrice: fc.bigInt({ min: BigInt(0), max: BigInt(10) ** BigInt(18) }),
+  slope: fc.bigInt({ min: BigInt(1), max: BigInt(10) ** BigInt(16) }),
+});
+const supply = fc.bigInt({ min: BigInt(0), max: BigInt(10) ** BigInt(27) });
+const amount = fc.bigInt({ min: BigInt(1), max: BigInt(10) ** BigInt(24) });
+const eth = fc.bigInt({ min: BigInt(1), max: BigInt(10) ** BigInt(22) });
+
+describe("mulDiv", () => {
+  it("rounds down or up only when there is a remainder", () => {
+    expect(mulDiv(BigInt(7), BigInt(3), BigInt(2))).toBe(BigInt(10));
+    expect(mulDiv(BigInt(7), BigInt(3), BigInt(2), "ceil")).toBe(BigInt(11));
+    expect(mulDiv(BigInt(6), BigInt(3), BigInt(2), "ceil")).toBe(BigInt(9));
+  });
+
+  it("throws on a zero denominator", () => {
+    expect(() => mulDiv(BigInt(1), BigInt(1), BigInt(0))).toThrow("division by zero");
+  });
+});
+
+describe("sqrt", () => {
+  it("returns the floor square root", () => {
+    fc.assert(
+      fc.property(fc.bigInt({ min: BigInt(0), max: BigInt(2) ** BigInt(200) }), (n) => {
+        const r = sqrt(n);
+        expect(r * r <= n).toBe(true);
+        expect((r + BigInt(1)) * (r + BigInt(1)) > n).toBe(true);
+      }),
+    );
+  });
+});
+
+describe("contract formulas", () => {
+  it("matches known values for the test deployment", () => {
+    expect(priceAt(TEST_PARAMS, BigInt(0))).toBe(BigInt(1e15));
+    expect(costToMint(TEST_PARAMS, BigInt(0), WAD)).toBe(BigInt("1000500000000000"));
+    expect(refundForBurn(TEST_PARAMS, WAD, WAD)).toBe(BigInt("1000500000000000"));
+  });
+
+  it("priceAt, costToMint and refundForBurn match the Solidity implementation", () => {
+    fc.assert(
+      fc.property(params, supply, amount, (p, s, n) => {
+        expect(priceAt(p, s)).toBe(contractPriceAt(p, s));
+        expect(costToMint(p, s, n)).toBe(contractCalculateCost(p, s, n));
+        expect(refundForBurn(p, s + n, n)).toBe(contractCalculateRefund(p, s + n, n));
+      }),
+    );
+  });
+
+  it("rejects the same inputs the contract rejects", () => {
+    expect(() => costToMint(TEST_PARAMS, BigInt(0), BigInt(0))).toThrow("amount=0");
+    expect(() => refundForBurn(TEST_PARAMS, WAD, WAD + BigInt(1))).toThrow("Cannot burn more tokens");
+    expect(refundForBurn(TEST_PARAMS, BigInt(0), BigInt(0))).toBe(BigInt(0));
+  });
+});
+
+describe("round trips", () => {
+  it("minting then burning the same amount never returns more than was paid", () => {
+    fc.assert(
+      fc.property(params, supply, amount, (p, s, n) => {
+        const cost = costToMint(p, s, n);
+        const refund = refundForBurn(p, s + n, n);
+        expect(refund <= cost).toBe(true);
+        // Ceil vs Floor on the same numerator differ by at most one wei
+        expect(cost - refund <= BigInt(1)).toBe(true);
+      }),
+    );
+  });
+
+  it("tokensForEth returns the largest amount the ETH can pay for", () => {
+    fc.assert(
+      fc.property(params, supply, eth, (p, s, e) => {
+        const n = tokensForEth(p, s, e);
+        if (n > BigInt(0)) {
+          expect(costToMint(p, s, n) <= e).toBe(true);
+        }
+        expect(costToMint(p, s, n + BigInt(1)) > e).toBe(true);
+      }),
+    );
+  });
+
+  it("quoting the ETH for an amount buys back at least that amount", () => {
+    fc.assert(
+      fc.property(params, supply, amount, (p, s, n) => {
+        const cost = ethForTokens(p, s, n);
+        // With a zero initial price, dust at the bottom of the curve costs 0 wei, and zero ETH buys
+        // nothing by design (the contract rejects it). Those amounts must really be free.
+        if (cost === BigInt(0)) {
+          expect(costToMint(p, s, n)).toBe(BigInt(0));
+          return;
+        }
+        expect(tokensForEth(p, s, cost) >= n).toBe(true);
+      }),
+    );
+  });
+
+  it("spending the quoted cost of tokensForEth never exceeds the ETH given", () => {
+    fc.assert(
+      fc.property(params, supply, eth, (p, s, e) => {
+        expect(ethForTokens(p, s, tokensForEth(p, s, e)) <= e).toBe(true);
+      }),
+    );
+  });
+
+  it("tokensForRefund covers the target with at most a negligible overshoot", () => {
+    fc.assert(
+      fc.property(params, supply, amount, (p, s, n) => {
+        const total = s + n;
+        const target = refundForBurn(p, total, n);
+        fc.pre(target > BigInt(0));
+
+        const needed = tokensForRefund(p, total, target);
+        expect(refundForBurn(p, total, needed) >= target).toBe(true);
+        // `n` itself refunds the target, so anything beyond it is sawtooth overshoot
+        const BILLION = BigInt(1e9);
+        expect(needed <= n + n / BILLION + BigInt(1)).toBe(true);
+      }),
+    );
+  });
+
+  it("tokensForRefund rejects targets beyond the reserve", () => {
+    const reserve = refundForBurn(TEST_PARAMS, WAD, WAD);
+    expect(tokensForRefund(TEST_PARAMS, WAD, reserve)).toBe(WAD);
+    expect(() => tokensForRefund(TEST_PARAMS, WAD, reserve + BigInt(1))).toThrow("whole supply");
+  });
+
+  it("handles a zero initial price", () => {
+    const p = { initialPrice: BigInt(0), slope: BigInt(1e12) };
+    const n = tokensForEth(p, BigInt(0), WAD);
+    expect(n > BigInt(0)).toBe(true);
+    expect(costToMint(p, BigInt(0), n) <= WAD).toBe(true);
+    expect(costToMint(p, BigInt(0), n + BigInt(1)) > WAD).toBe(true);
+  });
+});
+
+// Same parameters as contracts/test/CurveShapes.t.sol
+const EXPONENTIAL: CurveParams = { type: "exponential", initialPrice: BigInt(1e15), growthRate: BigInt(1e16) };
+const POLYNOMIAL: CurveParams = { type: "polynomial", initialPrice: BigInt(1e14), coefficient: BigInt(1e12), exponent: 2 };
+const SIGMOID: CurveParams = { type: "sigmoid", initialPrice: BigInt(1e14), maxPrice: BigInt(1e16), steepness: BigInt(1e16), midpoint: BigInt(1000) * WAD };
+const SHAPES = [EXPONENTIAL, POLYNOMIAL, SIGMOID];
+
+// Midpoint-rule integral of priceAt over [from, from + amount], as an independent check of the closed forms
+const integrate = (p: CurveParams, from: bigint, amount: bigint) => {
+  const steps = 1000;
+  let total = 0;
+  for (let i = 0; i < steps; i++) {
+    const s = from + (amount * BigInt(2 * i + 1)) / BigInt(2 * steps);
+    total += Number(priceAt(p, s));
+  }
+  return (total / steps) * (Number(amount) / 1e18);
+};
+
+describe("non-linear curves", () => {
+  it("builds params from curveType() and curveParameters()", () => {
+    expect(curveFromParameters(0, [BigInt(1), BigInt(2)])).toEqual({ type: "linear", initialPrice: BigInt(1), slope: BigInt(2) });
+    expect(curveFromParameters(1, [BigInt(1e15), BigInt(1e16)])).toEqual(EXPONENTIAL);
+    expect(curveFromParameters(2, [BigInt(1e14), BigInt(1e12), BigInt(2)])).toEqual(POLYNOMIAL);
+    expect(curveFromParameters(3, [BigInt(1e14), BigInt(1e16), BigInt(1e16), BigInt(1000) * WAD])).toEqual(SIGMOID);
+    expect(() => curveFromParameters(4, [])).toThrow("Unknown curve type 4");
+  });
+
+  it("only treats the linear curve as exact", () => {
+    expect(isExactCurve(TEST_PARAMS)).toBe(true);
+    expect(SHAPES.some(isExactCurve)).toBe(false);
+  });
+
+  it("prices known points", () => {
+    expect(priceAt(EXPONENTIAL, BigInt(0))).toBe(BigInt(1e15));
+    // e^(0.01 * 100) = e
+    expect(Number(priceAt(EXPONENTIAL, BigInt(100) * WAD)) / 1e15).toBeCloseTo(Math.E, 9);
+    // 1e14 + 1e12 * 10^2
+    expect(Number(priceAt(POLYNOMIAL, BigInt(10) * WAD))).toBeCloseTo(2e14, -2);
+    // Halfway up the S-curve at the midpoint
+    expect(Number(priceAt(SIGMOID, BigInt(1000) * WAD))).toBeCloseTo(1e14 + 5e15, -2);
+  });
+
+  it("prices rise with supply", () => {
+    for (const p of SHAPES) {
+      let previous = priceAt(p, BigInt(0));
+      for (let tokens = 50; tokens <= 2000; tokens += 50) {
+        const price = priceAt(p, BigInt(tokens) * WAD);
+        expect(price > previous).toBe(true);
+        previous = price;
+      }
+    }
+  });
+
+  it("mint costs match the area under the price curve", () => {
+    for (const p of SHAPES) {
+      for (const [from, amount] of [[0, 10], [250, 0.5], [900, 300]]) {
+        const supplyWei = BigInt(from * 1e6) * BigInt(1e12);
+        const amountWei = BigInt(amount * 1e6) * BigInt(1e12);
+        const cost = Number(costToMint(p, supplyWei, amountWei));
+        expect(Math.abs(cost - integrate(p, supplyWei, amountWei)) / cost).toBeLessThan(1e-6);
+      }
+    }
+  });
+
+  it("never refunds more than minting the same amount cost", () => {
+    fc.assert(
+      // Keep the supply inside the exponential curve's exp() range
+      fc.property(fc.integer({ min: 0, max: 2 }), fc.bigInt({ min: BigInt(1), max: BigInt(5000) * WAD }), amount, (shape, s, n) => {
+        const p = SHAPES[shape];
+        const burnable = s < n ? s : n;
+        expect(refundForBurn(p, s, burnable) <= costToMint(p, s - burnable, burnable)).toBe(true);
+      }),
+    );
+  });
+
+  it("tokensForEth returns the largest amount the ETH can pay for", () => {
+    for (const p of SHAPES) {
+      for (const s of [BigInt(0), BigInt(500) * WAD]) {
+        const n = tokensForEth(p, s, WAD);
+        expect(costToMint(p, s, n) <= WAD).toBe(true);
+        expect(costToMint(p, s, n + BigInt(1)) > WAD).toBe(true);
+      }
+    }
+  });
+
+  it("handles a zero initial price", () => {
+    const p: CurveParams = { ...POLYNOMIAL, initialPrice: BigInt(0) };
+    const n = tokensForEth(p, BigInt(0), WAD);
+    expect(n > BigInt(0)).toBe(true);
+    expect(costToMint(p, BigInt(0), n) <= WAD).toBe(true);
+  });
+
+  it("labels each curve's parameters", () => {
+    expect(curveFields(TEST_PARAMS, "NAT").map((field) => field.label)).toEqual(["Initial Price", "Slope"]);
+    expect(curveFields(EXPONENTIAL, "EXP")).toEqual([
+      { label: "Initial Price", value: "0.001 ETH" },
+      { label: "Growth Rate", value: "1% per token" },
+    ]);
+    expect(curveFields(SIGMOID, "SIG").at(-1)).toEqual({ label: "Midpoint", value: "1000 SIG" });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { deadlineFrom, deadlineSeconds } from "../lib/deadline";
+
+describe("deadlineSeconds", () => {
+  it("converts minutes to whole seconds", () => {
+    expect(deadlineSeconds("20")).toBe(BigInt(1200));
+    expect(deadlineSeconds("0.5")).toBe(BigInt(30));
+    expect(deadlineSeconds("1.01")).toBe(BigInt(61));
+  });
+
+  it("rejects empty, malformed and non-positive settings", () => {
+    for (const value of ["", ".", "abc", "-5", "0", "0.001"]) {
+      expect(deadlineSeconds(value)).toBeNull();
+    }
+  });
+});
+
+describe("deadlineFrom", () => {
+  const now = BigInt(1_700_000_000);
+
+  it("counts from the block timestamp the trade is submitted at", () => {
+    expect(deadlineFrom(now, "10")).toBe(now + BigInt(600));
+  });
+
+  it("leaves the deadline off when the setting is cleared", () => {
+    expect(deadlineFrom(now, "")).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChainMismatchError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+} from "viem";
+import { sepolia } from "viem/chains";
+import { linearBondingTokenAbi } from "../lib/contract";
+import { decodeError } from "../lib/errors";
+
+const ERROR_STRING_ABI = [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }] as const;
+
+// The shape simulateContract throws for a require() failure
+const revert = (reason: string) =>
+  new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({
+      abi: ERROR_STRING_ABI,
+      functionName: "mintTokens",
+      data: encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: "Error", args: [reason] }),
+    }),
+    { abi: linearBondingTokenAbi, functionName: "mintTokens", args: [BigInt(1), BigInt(1)] },
+  );
+
+describe("decodeError", () => {
+  it("maps known revert reasons and keeps the raw message as details", () => {
+    const decoded = decodeError(revert("Slippage: fewer tokens than expected"), "Buy transaction failed");
+
+    expect(decoded.message).toMatch(/slippage tolerance/);
+    expect(decoded.details).toContain("Slippage: fewer tokens than expected");
+  });
+
+  it("maps fee withdrawals with nothing owed", () => {
+    expect(decodeError(revert("No fees to withdraw"), "fallback").message).toMatch(/no fees waiting/);
+  });
+
+  it("maps graduation reverts", () => {
+    expect(decodeError(revert("Curve has graduated"), "fallback").message).toMatch(/minting is closed/);
+    expect(decodeError(revert("Exceeds max supply"), "fallback").message).toMatch(/supply cap/);
+    expect(decodeError(revert("Burns are frozen after graduation"), "fallback").message).toMatch(/froze burns/);
+  });
+
+  it("maps expired deadlines", () => {
+    expect(decodeError(revert("Transaction expired"), "fallback").message).toMatch(/after its deadline/);
+  });
+
+  it("maps buys the ETH can't fill", () => {
+    expect(decodeError(revert("Nothing left to mint"), "fallback").message).toMatch(/no tokens left/);
+    expect(decodeError(revert("Not enough ETH to buy tokens"), "fallback").message).toMatch(/larger amount/);
+  });
+
+  it("passes unknown revert reasons through", () => {
+    expect(decodeError(revert("Something new"), "fallback").message).toBe("Transaction reverted: Something new");
+  });
+
+  it("recognises wallet rejections without details", () => {
+    const decoded = decodeError(new UserRejectedRequestError(new Error("User denied transaction signature")), "fallback");
+
+    expect(decoded.message).toBe("You rejected the request in your wallet.");
+    expect(decoded.details).toBeUndefined();
+  });
+
+  it("recognises chain mismatches from viem and wagmi", () => {
+    const viemMismatch = new ChainMismatchError({ chain: sepolia, currentChainId: 1 });
+    const wagmiMismatch = Object.assign(new Error("Connector is on the wrong chain"), { name: "ConnectorChainMismatchError" });
+
+    expect(decodeError(viemMismatch, "fallback").message).toMatch(/different network/);
+    expect(decodeError(wagmiMismatch, "fallback").message).toMatch(/different network/);
+  });
+
+  it("falls back for errors it doesn't recognise", () => {
+    expect(decodeError(new Error("boom"), "Sell transaction failed")).toEqual({ message: "Sell transaction failed", details: "boom" });
+    expect(decodeError("boom", "Sell transaction failed")).toEqual({ message: "Sell transaction failed", details: undefined });
+  });
+});
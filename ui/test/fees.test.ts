@@ -0,0 +1,55 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { MAX_FEE_BPS, NO_FEES, curveBudget, feesOn, grossRefund, maxCreatorFeeBps, totalFeeBps, type FeeRates } from "../lib/fees";
+
+const FEES: FeeRates = { protocolFeeBps: BigInt(50), creatorFeeBps: BigInt(100) };
+
+const feeRates = fc
+  .tuple(fc.bigInt({ min: BigInt(0), max: MAX_FEE_BPS }), fc.bigInt({ min: BigInt(0), max: MAX_FEE_BPS }))
+  .filter(([protocol, creator]) => protocol + creator <= MAX_FEE_BPS)
+  .map(([protocolFeeBps, creatorFeeBps]): FeeRates => ({ protocolFeeBps, creatorFeeBps }));
+const wei = fc.bigInt({ min: BigInt(1), max: BigInt(10) ** BigInt(24) });
+
+describe("feesOn", () => {
+  it("rounds each fee down on its own, like the contract", () => {
+    expect(feesOn(BigInt(10001), FEES)).toEqual({ protocolFee: BigInt(50), creatorFee: BigInt(100) });
+    expect(feesOn(BigInt(199), FEES)).toEqual({ protocolFee: BigInt(0), creatorFee: BigInt(1) });
+  });
+
+  it("charges nothing without fee rates", () => {
+    expect(feesOn(BigInt(10) ** BigInt(18), NO_FEES)).toEqual({ protocolFee: BigInt(0), creatorFee: BigInt(0) });
+    expect(totalFeeBps(NO_FEES)).toBe(BigInt(0));
+  });
+});
+
+describe("maxCreatorFeeBps", () => {
+  it("leaves the creator whatever the protocol fee doesn't use of the cap", () => {
+    expect(maxCreatorFeeBps(BigInt(0))).toBe(MAX_FEE_BPS);
+    expect(maxCreatorFeeBps(BigInt(50))).toBe(MAX_FEE_BPS - BigInt(50));
+    expect(maxCreatorFeeBps(MAX_FEE_BPS)).toBe(BigInt(0));
+  });
+});
+
+describe("curveBudget", () => {
+  it("leaves room for the fees on whatever the budget buys", () => {
+    fc.assert(
+      fc.property(wei, feeRates, (eth, rates) => {
+        const budget = curveBudget(eth, rates);
+        const { protocolFee, creatorFee } = feesOn(budget, rates);
+        expect(budget + protocolFee + creatorFee <= eth).toBe(true);
+      }),
+    );
+  });
+});
+
+describe("grossRefund", () => {
+  it("nets at least the target once fees come off", () => {
+    fc.assert(
+      fc.property(wei, feeRates, (eth, rates) => {
+        const gross = grossRefund(eth, rates);
+        const { protocolFee, creatorFee } = feesOn(gross, rates);
+        expect(gross - protocolFee - creatorFee >= eth).toBe(true);
+      }),
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { formatEther, formatNumber, formatWei, parseAmount } from "../lib/format";
+
+describe("formatWei", () => {
+  it("drops the fraction for whole amounts", () => {
+    expect(formatWei(BigInt(0))).toBe("0");
+    expect(formatWei(BigInt(10) ** BigInt(18))).toBe("1");
+    expect(formatWei(BigInt(10) ** BigInt(30))).toBe("1000000000000");
+  });
+
+  it("trims trailing zeros and truncates to the precision without rounding", () => {
+    expect(formatWei(BigInt("1500000000000000000"))).toBe("1.5");
+    expect(formatWei(BigInt("1999999999999999999"))).toBe("1.999999");
+    expect(formatWei(BigInt("1999999999999999999"), 18, 2)).toBe("1.99");
+    expect(formatWei(BigInt("1000000000000000001"), 18, 18)).toBe("1.000000000000000001");
+  });
+
+  it("never leaves a dangling zero fraction when everything is truncated", () => {
+    expect(formatWei(BigInt(1))).toBe("0");
+    expect(formatWei(BigInt("2000000000000000001"))).toBe("2");
+    expect(formatWei(BigInt("1000100000000000000"), 18, 3)).toBe("1");
+  });
+
+  it("supports other decimals", () => {
+    expect(formatWei(BigInt(1500000), 6)).toBe("1.5");
+    expect(formatWei(BigInt(1), 6)).toBe("0.000001");
+    expect(formatWei(BigInt(123), 0)).toBe("123");
+  });
+});
+
+describe("formatEther", () => {
+  it("formats 18-decimal wei", () => {
+    expect(formatEther(BigInt("250000000000000000"))).toBe("0.25");
+    expect(formatEther(BigInt("123456789"), 18)).toBe("0.000000000123456789");
+    expect(formatEther(BigInt("123456789"))).toBe("0");
+  });
+});
+
+describe("formatNumber", () => {
+  it("prints plain decimals without trailing zeros", () => {
+    expect(formatNumber(0)).toBe("0");
+    expect(formatNumber(10)).toBe("10");
+    expect(formatNumber(1.5)).toBe("1.5");
+    expect(formatNumber(0.0000001)).toBe("0.0000001");
+  });
+});
+
+describe("parseAmount", () => {
+  it("parses decimals straight to base units", () => {
+    expect(parseAmount("1.5")).toBe(BigInt("1500000000000000000"));
+    expect(parseAmount(".25")).toBe(BigInt("250000000000000000"));
+    expect(parseAmount("7.")).toBe(BigInt("7000000000000000000"));
+    expect(parseAmount("0.000000000000000001")).toBe(BigInt(1));
+    expect(parseAmount("123456789.123456789123456789")).toBe(BigInt("123456789123456789123456789"));
+    expect(parseAmount("1.5", 6)).toBe(BigInt(1500000));
+  });
+
+  it("rejects malformed input and excess precision", () => {
+    for (const bad of ["", ".", "-1", "1e18", "1.2.3", "abc", "0x10", "1,5", "0.0000000000000000001"]) {
+      expect(parseAmount(bad)).toBeNull();
+    }
+  });
+
+  it("round-trips with full-precision formatWei", () => {
+    fc.assert(
+      fc.property(fc.bigInt({ min: BigInt(0), max: BigInt(10) ** BigInt(40) }), (wei) => {
+        expect(parseAmount(formatWei(wei, 18, 18))).toBe(wei);
+      }),
+    );
+  });
+});
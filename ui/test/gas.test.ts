@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { FALLBACK_GAS_LIMITS, GAS_HEADROOM_BPS, maxSpendable, networkFee } from "../lib/gas";
+
+const GWEI = BigInt(1e9);
+
+describe("networkFee", () => {
+  it("pads gas * maxFeePerGas by the headroom", () => {
+    const fee = networkFee(BigInt(100000), BigInt(2) * GWEI);
+
+    expect(GAS_HEADROOM_BPS).toBe(BigInt(2000));
+    expect(fee.fee).toBe(BigInt(240000) * GWEI);
+    expect(fee.estimated).toBe(true);
+  });
+
+  it("rounds the padding up", () => {
+    expect(networkFee(BigInt(1), BigInt(1)).fee).toBe(BigInt(2));
+  });
+});
+
+describe("maxSpendable", () => {
+  it("holds back the gas reserve", () => {
+    const reserve = networkFee(FALLBACK_GAS_LIMITS.mint, GWEI, false).fee;
+    const balance = BigInt(1e18);
+
+    expect(maxSpendable(balance, reserve)).toBe(balance - reserve);
+  });
+
+  it("never goes negative", () => {
+    expect(maxSpendable(BigInt(5), BigInt(10))).toBe(BigInt(0));
+  });
+});
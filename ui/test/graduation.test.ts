@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { WAD, refundForBurn, type CurveParams } from "../lib/curve";
+import { burnsFrozen, capProgress, remainingSupply, type Graduation } from "../lib/graduation";
+
+const PARAMS: CurveParams = { initialPrice: BigInt(1e15), slope: BigInt(1e12) };
+const MAX_SUPPLY = BigInt(1000) * WAD;
+const CAPPED: Graduation = { maxSupply: MAX_SUPPLY, reserveTarget: BigInt(0), freezeBurns: false, graduated: false };
+
+describe("remainingSupply", () => {
+  it("is unbounded without a cap", () => {
+    expect(remainingSupply(null, MAX_SUPPLY)).toBeNull();
+  });
+
+  it("counts down to the cap", () => {
+    expect(remainingSupply(CAPPED, BigInt(0))).toBe(MAX_SUPPLY);
+    expect(remainingSupply(CAPPED, BigInt(600) * WAD)).toBe(BigInt(400) * WAD);
+    expect(remainingSupply(CAPPED, MAX_SUPPLY)).toBe(BigInt(0));
+  });
+
+  it("stays closed after graduation even if burns bring the supply back down", () => {
+    expect(remainingSupply({ ...CAPPED, graduated: true }, BigInt(900) * WAD)).toBe(BigInt(0));
+  });
+});
+
+describe("capProgress", () => {
+  it("tracks supply against the cap", () => {
+    expect(capProgress(PARAMS, CAPPED, BigInt(250) * WAD)).toEqual({
+      kind: "supply",
+      current: BigInt(250) * WAD,
+      target: MAX_SUPPLY,
+      bps: 2500,
+    });
+  });
+
+  it("tracks the reserve when the cap was set as a reserve target", () => {
+    const supply = BigInt(500) * WAD;
+    const reserve = refundForBurn(PARAMS, supply, supply);
+    const graduation = { ...CAPPED, reserveTarget: reserve * BigInt(2) };
+
+    expect(capProgress(PARAMS, graduation, supply)).toMatchObject({ kind: "reserve", current: reserve, bps: 5000 });
+  });
+
+  it("reads as complete once graduated", () => {
+    expect(capProgress(PARAMS, { ...CAPPED, graduated: true }, BigInt(900) * WAD).bps).toBe(10000);
+  });
+});
+
+describe("burnsFrozen", () => {
+  it("only freezes burns on a graduated curve that asked for it", () => {
+    expect(burnsFrozen(null)).toBe(false);
+    expect(burnsFrozen({ ...CAPPED, freezeBurns: true })).toBe(false);
+    expect(burnsFrozen({ ...CAPPED, graduated: true })).toBe(false);
+    expect(burnsFrozen({ ...CAPPED, freezeBurns: true, graduated: true })).toBe(true);
+  });
+});
@@ -0,0 +1,4 @@
+import { anvilChain } from "../../scripts/anvil";
+
+// Off the dev stack's 8545, so `npm run dev:local` can keep running alongside the tests
+export const testChain = anvilChain(8546);
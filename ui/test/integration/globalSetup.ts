@@ -0,0 +1,27 @@
+import type { Address } from "viem";
+import type { TestProject } from "vitest/node";
+import { buildContracts, deployStack, startAnvil } from "../../scripts/anvil";
+import { testChain } from "./chain";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    tokenAddress: Address;
+  }
+}
+
+export default async function setup(project: TestProject) {
+  buildContracts();
+  const node = await startAnvil(testChain);
+
+  try {
+    const { token } = await deployStack(testChain);
+    project.provide("tokenAddress", token);
+  } catch (err) {
+    node.kill();
+    throw err;
+  }
+
+  return () => {
+    node.kill();
+  };
+}
@@ -0,0 +1,212 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, inject, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { WagmiProvider, createConfig, http, useWalletClient } from "wagmi";
+import { connect } from "wagmi/actions";
+import { mock } from "wagmi/connectors";
+import { createPublicClient, createTestClient, decodeFunctionData, parseEther, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { useContractData, useUserBalance } from "../../app/hooks/useContractData";
+import { useContractWrite } from "../../app/hooks/useContractWrite";
+import { TransactionProvider } from "../../app/hooks/useTransactions";
+import { readBalanceOf, writeMintTokens } from "../../lib/contract";
+import { linearBondingTokenAbi, writeTransfer } from "../../lib/generated/linearBondingToken";
+import { WAD, costToMint, refundForBurn, tokensForEth } from "../../lib/curve";
+import { ANVIL_KEYS, DEMO_TOKEN, walletFor } from "../../scripts/anvil";
+import { testChain } from "./chain";
+
+const token = inject("tokenAddress");
+const alice = privateKeyToAccount(ANVIL_KEYS.alice).address;
+const params = { initialPrice: DEMO_TOKEN.initialPrice, slope: DEMO_TOKEN.slope };
+
+const publicClient = createPublicClient({ chain: testChain, transport: http() });
+const testClient = createTestClient({ chain: testChain, mode: "anvil", transport: http() });
+
+// Alice's account through wagmi's mock connector; Anvil signs for its own unlocked dev accounts
+const config = createConfig({
+  chains: [testChain],
+  connectors: [mock({ accounts: [alice] })],
+  transports: { [testChain.id]: http() },
+  pollingInterval: 100,
+});
+
+function renderWithProviders<T>(hook: () => T) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <WagmiProvider config={config} reconnectOnMount={false}>
+      <QueryClientProvider client={queryClient}>
+        <TransactionProvider>{children}</TransactionProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  );
+  return renderHook(hook, { wrapper });
+}
+
+// The write hook plus what the tests check, once the wallet client is ready
+async function renderTrader() {
+  const rendered = renderWithProviders(() => ({
+    write: useContractWrite(),
+    balance: useUserBalance(),
+    wallet: useWalletClient(),
+  }));
+  await waitFor(() => expect(rendered.result.current.wallet.data).toBeDefined());
+  return rendered;
+}
+
+beforeAll(async () => {
+  await connect(config, { connector: config.connectors[0] });
+});
+
+// Every test starts from the freshly deployed, empty curve
+let snapshot: Hex;
+beforeEach(async () => {
+  snapshot = await testClient.snapshot();
+});
+afterEach(async () => {
+  await testClient.revert({ id: snapshot });
+});
+
+describe("useContractData", () => {
+  it("reads the deployed curve", async () => {
+    const { result } = renderWithProviders(() => useContractData());
+
+    await waitFor(() => expect(result.current.data).toBeDefined());
+    expect(result.current.contractAddress).toBe(token);
+    expect(result.current.data).toMatchObject({
+      name: DEMO_TOKEN.name,
+      symbol: DEMO_TOKEN.symbol,
+      curve: { type: "linear", initialPrice: DEMO_TOKEN.initialPrice, slope: DEMO_TOKEN.slope },
+      totalSupply: BigInt(0),
+      currentPrice: DEMO_TOKEN.initialPrice,
+    });
+    expect(result.current.data!.blockNumber > BigInt(0)).toBe(true);
+  });
+});
+
+describe("useUserBalance", () => {
+  it("reads the connected wallet's balance", async () => {
+    const { account, walletClient } = walletFor(ANVIL_KEYS.deployer, testChain);
+    const amount = BigInt(5) * WAD;
+    await writeMintTokens({ publicClient, walletClient, account, address: token, amount, minTokenOut: amount, value: costToMint(params, BigInt(0), amount) });
+    await writeTransfer({ publicClient, walletClient, account, address: token }, alice, BigInt(2) * WAD);
+
+    const { result } = renderWithProviders(() => useUserBalance());
+
+    await waitFor(() => expect(result.current.balance).toBe(BigInt(2) * WAD));
+  });
+});
+
+describe("useContractWrite", () => {
+  it("buys exact-in and credits the wallet", async () => {
+    const { result } = await renderTrader();
+    const expected = tokensForEth(params, BigInt(0), parseEther("1"));
+
+    const ethBefore = await publicClient.getBalance({ address: alice });
+    let receipt: Awaited<ReturnType<typeof result.current.write.buyTokens>>;
+
+    await act(async () => {
+      receipt = await result.current.write.buyTokens(parseEther("1"), "1", "exactIn", "");
+    });
+
+    expect(result.current.write.buyState).toBe("success");
+    expect(await readBalanceOf(publicClient, alice, token)).toBe(expected);
+    // The contract sizes the buy from the ETH sent and refunds what the last token couldn't use
+    const { input } = await publicClient.getTransaction({ hash: receipt!.transactionHash });
+    expect(decodeFunctionData({ abi: linearBondingTokenAbi, data: input }).functionName).toBe("buyWithEth");
+    const gas = receipt!.gasUsed * receipt!.effectiveGasPrice;
+    expect(await publicClient.getBalance({ address: alice })).toBe(ethBefore - costToMint(params, BigInt(0), expected) - gas);
+    // The settled transaction invalidates the cached balance
+    await waitFor(() => expect(result.current.balance.balance).toBe(expected), { timeout: 5000 });
+  });
+
+  it("buys exact-out for exactly the requested tokens", async () => {
+    const { result } = await renderTrader();
+    const tokens = BigInt(100) * WAD;
+
+    await act(async () => {
+      await result.current.write.buyTokens(tokens, "1", "exactOut");
+    });
+
+    expect(result.current.write.buyState).toBe("success");
+    expect(await readBalanceOf(publicClient, alice, token)).toBe(tokens);
+  });
+
+  it("sends trades with a deadline through the deadline-checked entry point", async () => {
+    const { result } = await renderTrader();
+    const tokens = BigInt(100) * WAD;
+    let receipt: Awaited<ReturnType<typeof result.current.write.buyTokens>>;
+
+    await act(async () => {
+      receipt = await result.current.write.buyTokens(tokens, "1", "exactOut", "20");
+    });
+
+    expect(result.current.write.buyState).toBe("success");
+    expect(await readBalanceOf(publicClient, alice, token)).toBe(tokens);
+    const { input } = await publicClient.getTransaction({ hash: receipt!.transactionHash });
+    const { functionName, args } = decodeFunctionData({ abi: linearBondingTokenAbi, data: input });
+    const { timestamp } = await publicClient.getBlock({ blockNumber: receipt!.blockNumber });
+    expect(functionName).toBe("mintTokensWithDeadline");
+    expect(args?.[2]).toBeGreaterThan(timestamp);
+  });
+
+  it("sells back and refunds the quoted ETH", async () => {
+    const { result } = await renderTrader();
+    const bought = BigInt(100) * WAD;
+    await act(async () => {
+      await result.current.write.buyTokens(bought, "1", "exactOut");
+    });
+
+    const sold = BigInt(40) * WAD;
+    const ethBefore = await publicClient.getBalance({ address: alice });
+    let receipt: Awaited<ReturnType<typeof result.current.write.sellTokens>>;
+    await act(async () => {
+      receipt = await result.current.write.sellTokens(sold, "1", "exactIn");
+    });
+
+    expect(result.current.write.sellState).toBe("success");
+    expect(await readBalanceOf(publicClient, alice, token)).toBe(bought - sold);
+    const gas = receipt!.gasUsed * receipt!.effectiveGasPrice;
+    expect(await publicClient.getBalance({ address: alice })).toBe(ethBefore + refundForBurn(params, bought, sold) - gas);
+  });
+
+  it("surfaces the contract's revert reason", async () => {
+    // Someone else holds the supply, so the sell passes the supply check and reverts on-chain
+    const { account, walletClient } = walletFor(ANVIL_KEYS.deployer, testChain);
+    const amount = BigInt(50) * WAD;
+    await writeMintTokens({ publicClient, walletClient, account, address: token, amount, minTokenOut: amount, value: costToMint(params, BigInt(0), amount) });
+    const { result } = await renderTrader();
+
+    await act(async () => {
+      await expect(result.current.write.sellTokens(BigInt(10) * WAD, "1", "exactIn")).rejects.toThrow();
+    });
+
+    expect(result.current.write.sellState).toBe("error");
+    expect(result.current.write.error?.message).toBe("You don't hold enough tokens to sell that amount.");
+  });
+
+  it("rejects a sell above the supply before sending anything", async () => {
+    const { result } = await renderTrader();
+    const blockBefore = await publicClient.getBlockNumber();
+
+    await act(async () => {
+      await expect(result.current.write.sellTokens(WAD, "1", "exactIn")).rejects.toThrow("Cannot sell more tokens than the current supply");
+    });
+
+    expect(result.current.write.sellState).toBe("error");
+    expect(result.current.write.error?.message).toBe("Sell transaction failed");
+    expect(await publicClient.getBlockNumber()).toBe(blockBefore);
+  });
+
+  it("resets back to idle", async () => {
+    const { result } = await renderTrader();
+    await act(async () => {
+      await expect(result.current.write.sellTokens(WAD, "1", "exactIn")).rejects.toThrow();
+    });
+
+    act(() => result.current.write.resetStates());
+
+    expect(result.current.write.sellState).toBe("idle");
+    expect(result.current.write.error).toBeNull();
+  });
+});
@@ -0,0 +1,4 @@
+import { inject } from "vitest";
+
+// The hooks find their token through the default-token override, like a single-token deployment would
+process.env.NEXT_PUBLIC_TOKEN_CONTRACT = inject("tokenAddress");
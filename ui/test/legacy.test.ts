@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { toFunctionSelector, type Hex } from "viem";
+import { entryPointsFromCode, hasFunction, supportsDeadline } from "../lib/legacy";
+
+// A dispatcher fragment: PUSH4 <selector> EQ PUSH2 <dest> JUMPI
+const dispatch = (...signatures: string[]): Hex =>
+  `0x6080604052${signatures.map((signature) => `63${toFunctionSelector(signature).slice(2)}1461000057`).join("")}`;
+
+describe("hasFunction", () => {
+  it("finds selectors the dispatcher pushes", () => {
+    const code = dispatch("burnTokens(uint256,uint256)");
+    expect(hasFunction(code, "burnTokens(uint256,uint256)")).toBe(true);
+    expect(hasFunction(code, "burnTokens(uint256)")).toBe(false);
+  });
+
+  it("ignores case and treats missing code as having nothing", () => {
+    expect(hasFunction(dispatch("burnTokens(uint256,uint256)").toUpperCase().replace("0X", "0x") as Hex, "burnTokens(uint256,uint256)")).toBe(true);
+    expect(hasFunction(undefined, "burnTokens(uint256,uint256)")).toBe(false);
+  });
+});
+
+describe("entryPointsFromCode", () => {
+  it("tells the current burn apart from the one the first deployment had", () => {
+    expect(entryPointsFromCode(dispatch("mintTokens(uint256,uint256)", "burnTokens(uint256,uint256)")).burnWithMinEthOut).toBe(true);
+    expect(entryPointsFromCode(dispatch("mintTokens(uint256,uint256)", "burnTokens(uint256)")).burnWithMinEthOut).toBe(false);
+  });
+
+  it("only offers deadlines when both deadline-checked entry points are there", () => {
+    const current = dispatch(
+      "burnTokens(uint256,uint256)",
+      "mintTokensWithDeadline(uint256,uint256,uint256)",
+      "burnTokensWithDeadline(uint256,uint256,uint256)",
+    );
+
+    expect(supportsDeadline(entryPointsFromCode(current))).toBe(true);
+    expect(supportsDeadline(entryPointsFromCode(dispatch("burnTokens(uint256,uint256)", "mintTokensWithDeadline(uint256,uint256,uint256)")))).toBe(false);
+    expect(supportsDeadline(entryPointsFromCode(dispatch("mintTokens(uint256,uint256)", "burnTokens(uint256)")))).toBe(false);
+  });
+
+  it("finds buyWithEth only on tokens that have it", () => {
+    const current = entryPointsFromCode(dispatch("mintTokens(uint256,uint256)", "buyWithEth(uint256)", "buyWithEthWithDeadline(uint256,uint256)"));
+    const legacy = entryPointsFromCode(dispatch("mintTokens(uint256,uint256)", "burnTokens(uint256)"));
+
+    expect([current.buyWithEth, current.buyWithEthWithDeadline]).toEqual([true, true]);
+    expect([legacy.buyWithEth, legacy.buyWithEthWithDeadline]).toEqual([false, false]);
+  });
+});
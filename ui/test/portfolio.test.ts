@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { type Address, type Hash } from "viem";
+import { WAD } from "../lib/curve";
+import { computePosition, heldPosition, unrealizedPnl } from "../lib/portfolio";
+import type { Trade } from "../lib/trades";
+
+const ALICE = "0x00000000000000000000000000000000000A11CE" as Address;
+const BOB = "0x0000000000000000000000000000000000000B0B" as Address;
+
+let block = 0;
+const trade = (kind: Trade["kind"], trader: Address, tokens: number, ethWei: bigint): Trade => {
+  block += 1;
+  const amount = BigInt(tokens) * WAD;
+  return {
+    kind,
+    trader,
+    amount,
+    eth: ethWei,
+    price: (ethWei * WAD) / amount,
+    supplyAfter: BigInt(0),
+    blockNumber: BigInt(block),
+    timestamp: 0,
+    txHash: `0x${block.toString(16).padStart(64, "0")}` as Hash,
+    logIndex: 0,
+  };
+};
+
+const eth = (value: number) => BigInt(value * 1000) * (WAD / BigInt(1000));
+
+describe("computePosition", () => {
+  it("averages the cost of several buys", () => {
+    const trades = [trade("buy", ALICE, 100, eth(1)), trade("buy", ALICE, 100, eth(3))];
+
+    const position = computePosition(trades, ALICE);
+
+    expect(position.amount).toBe(BigInt(200) * WAD);
+    expect(position.costBasis).toBe(eth(4));
+    expect(position.averageCost).toBe(eth(0.02));
+    expect(position.realizedPnl).toBe(BigInt(0));
+  });
+
+  it("realizes the difference between refund and average cost on a sell", () => {
+    const trades = [
+      trade("buy", ALICE, 100, eth(1)),
+      trade("buy", ALICE, 100, eth(3)),
+      trade("sell", ALICE, 50, eth(1.5)),
+    ];
+
+    const position = computePosition(trades, ALICE);
+
+    // 50 tokens at an average of 0.02 ETH cost 1 ETH, sold for 1.5 ETH
+    expect(position.realizedPnl).toBe(eth(0.5));
+    expect(position.amount).toBe(BigInt(150) * WAD);
+    expect(position.costBasis).toBe(eth(3));
+    expect(position.averageCost).toBe(eth(0.02));
+    expect(position.totalSpent).toBe(eth(4));
+    expect(position.totalReceived).toBe(eth(1.5));
+  });
+
+  it("only counts the trader's own trades and replays them in chain order", () => {
+    const buy = trade("buy", ALICE, 10, eth(1));
+    const other = trade("buy", BOB, 10, eth(5));
+    const sell = trade("sell", ALICE, 10, eth(0.8));
+
+    // Newest first, as the trade history feed returns them
+    const position = computePosition([sell, other, buy], ALICE);
+
+    expect(position.amount).toBe(BigInt(0));
+    expect(position.costBasis).toBe(BigInt(0));
+    expect(position.averageCost).toBe(BigInt(0));
+    expect(position.realizedPnl).toBe(-eth(0.2));
+  });
+
+  it("treats tokens sold beyond what was bought as zero cost", () => {
+    const trades = [trade("buy", ALICE, 10, eth(1)), trade("sell", ALICE, 20, eth(3))];
+
+    const position = computePosition(trades, ALICE);
+
+    expect(position.amount).toBe(BigInt(0));
+    expect(position.realizedPnl).toBe(eth(2));
+  });
+});
+
+describe("heldPosition", () => {
+  const position = computePosition([trade("buy", ALICE, 100, eth(2))], ALICE);
+
+  it("counts the whole position while the wallet holds it", () => {
+    expect(heldPosition(position, BigInt(100) * WAD)).toEqual({ amount: position.amount, costBasis: eth(2) });
+  });
+
+  it("leaves out tokens that arrived by transfer", () => {
+    expect(heldPosition(position, BigInt(150) * WAD)).toEqual({ amount: position.amount, costBasis: eth(2) });
+  });
+
+  it("scales the cost basis down to what's left after transfers out", () => {
+    expect(heldPosition(position, BigInt(40) * WAD)).toEqual({ amount: BigInt(40) * WAD, costBasis: eth(0.8) });
+    expect(heldPosition(position, BigInt(0))).toEqual({ amount: BigInt(0), costBasis: BigInt(0) });
+  });
+});
+
+describe("unrealizedPnl", () => {
+  it("compares liquidation value with the remaining cost basis", () => {
+    const position = computePosition([trade("buy", ALICE, 100, eth(2))], ALICE);
+
+    expect(unrealizedPnl(position, eth(2.5))).toBe(eth(0.5));
+    expect(unrealizedPnl(position, eth(1.5))).toBe(-eth(0.5));
+  });
+});
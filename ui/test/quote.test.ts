@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { WAD, costToMint, priceAt, refundForBurn, tokensForEth, tokensForRefund, type CurveParams } from "../lib/curve";
+import { feesOn, type FeeRates } from "../lib/fees";
+import { DEFAULT_PRICE_IMPACT_THRESHOLDS, capBuyQuote, formatBps, priceImpactLevel, quoteBreakdown, quoteTrade } from "../lib/quote";
+
+const PARAMS: CurveParams = { initialPrice: BigInt(1e15), slope: BigInt(1e12) };
+const SUPPLY = BigInt(1000) * WAD;
+const FEES: FeeRates = { protocolFeeBps: BigInt(50), creatorFeeBps: BigInt(100) };
+
+describe("quoteTrade", () => {
+  it("fills in the leg the trader didn't fix", () => {
+    const tokens = BigInt(10) * WAD;
+
+    expect(quoteTrade(PARAMS, SUPPLY, "buy", "exactIn", WAD)).toMatchObject({ eth: WAD, tokens: tokensForEth(PARAMS, SUPPLY, WAD) });
+    expect(quoteTrade(PARAMS, SUPPLY, "buy", "exactOut", tokens)).toMatchObject({ tokens, eth: costToMint(PARAMS, SUPPLY, tokens) });
+    expect(quoteTrade(PARAMS, SUPPLY, "sell", "exactIn", tokens)).toMatchObject({ tokens, eth: refundForBurn(PARAMS, SUPPLY, tokens) });
+    expect(quoteTrade(PARAMS, SUPPLY, "sell", "exactOut", WAD)).toMatchObject({ eth: WAD, tokens: tokensForRefund(PARAMS, SUPPLY, WAD) });
+  });
+
+  it("charges nothing extra without fees", () => {
+    const quote = quoteTrade(PARAMS, SUPPLY, "buy", "exactOut", WAD)!;
+    expect(quote).toEqual({ tokens: WAD, eth: quote.curveEth, curveEth: quote.curveEth, protocolFee: BigInt(0), creatorFee: BigInt(0) });
+  });
+
+  it("adds fees to buys and takes them out of sells", () => {
+    const tokens = BigInt(10) * WAD;
+
+    const buy = quoteTrade(PARAMS, SUPPLY, "buy", "exactOut", tokens, FEES)!;
+    const cost = costToMint(PARAMS, SUPPLY, tokens);
+    const { protocolFee, creatorFee } = feesOn(cost, FEES);
+    expect(buy).toEqual({ tokens, eth: cost + protocolFee + creatorFee, curveEth: cost, protocolFee, creatorFee });
+
+    const sell = quoteTrade(PARAMS, SUPPLY, "sell", "exactIn", tokens, FEES)!;
+    const refund = refundForBurn(PARAMS, SUPPLY, tokens);
+    expect(sell.curveEth).toBe(refund);
+    expect(sell.eth).toBe(refund - sell.protocolFee - sell.creatorFee);
+  });
+
+  it("keeps an exact-in buy within budget once fees are added", () => {
+    const quote = quoteTrade(PARAMS, SUPPLY, "buy", "exactIn", WAD, FEES)!;
+    const next = costToMint(PARAMS, SUPPLY, quote.tokens + BigInt(1));
+
+    expect(quote.eth).toBe(WAD);
+    expect(quote.curveEth + quote.protocolFee + quote.creatorFee <= WAD).toBe(true);
+    // One more token would overrun the part of the budget left after fees
+    expect(next + feesOn(next, FEES).protocolFee + feesOn(next, FEES).creatorFee > WAD - BigInt(2)).toBe(true);
+  });
+
+  it("burns enough for an exact-out sell to net the target after fees", () => {
+    const quote = quoteTrade(PARAMS, SUPPLY, "sell", "exactOut", WAD, FEES)!;
+    const refund = refundForBurn(PARAMS, SUPPLY, quote.tokens);
+    const { protocolFee, creatorFee } = feesOn(refund, FEES);
+
+    expect(quote.eth).toBe(WAD);
+    expect(refund - protocolFee - creatorFee >= WAD).toBe(true);
+  });
+
+  it("returns null for trades the curve can't fill", () => {
+    const reserve = refundForBurn(PARAMS, SUPPLY, SUPPLY);
+
+    expect(quoteTrade(PARAMS, SUPPLY, "buy", "exactIn", BigInt(0))).toBeNull();
+    expect(quoteTrade(PARAMS, SUPPLY, "sell", "exactIn", SUPPLY + BigInt(1))).toBeNull();
+    expect(quoteTrade(PARAMS, SUPPLY, "sell", "exactOut", reserve + BigInt(1))).toBeNull();
+    // The whole reserve no longer nets out once fees come off it
+    expect(quoteTrade(PARAMS, SUPPLY, "sell", "exactOut", reserve, FEES)).toBeNull();
+  });
+});
+
+describe("capBuyQuote", () => {
+  it("leaves buys within the remaining supply alone", () => {
+    const quote = quoteTrade(PARAMS, SUPPLY, "buy", "exactIn", WAD, FEES)!;
+    expect(capBuyQuote(PARAMS, SUPPLY, quote, quote.tokens, FEES)).toBe(quote);
+  });
+
+  it("re-prices a buy that would overrun the cap as a buy of what's left", () => {
+    const capacity = WAD;
+    const quote = quoteTrade(PARAMS, SUPPLY, "buy", "exactIn", BigInt(10) * WAD, FEES)!;
+    const capped = capBuyQuote(PARAMS, SUPPLY, quote, capacity, FEES)!;
+
+    expect(capped).toEqual(quoteTrade(PARAMS, SUPPLY, "buy", "exactOut", capacity, FEES));
+    expect(capped.tokens).toBe(capacity);
+    expect(capped.eth < quote.eth).toBe(true);
+  });
+
+  it("returns null once nothing is left to mint", () => {
+    const quote = quoteTrade(PARAMS, SUPPLY, "buy", "exactOut", WAD)!;
+    expect(capBuyQuote(PARAMS, SUPPLY, quote, BigInt(0))).toBeNull();
+  });
+});
+
+describe("quoteBreakdown", () => {
+  it("prices a buy from the current spot up the curve", () => {
+    const tokens = BigInt(100) * WAD;
+    const eth = costToMint(PARAMS, SUPPLY, tokens);
+
+    const quote = quoteBreakdown(PARAMS, SUPPLY, "buy", tokens, eth)!;
+
+    expect(quote.spotBefore).toBe(priceAt(PARAMS, SUPPLY));
+    expect(quote.spotAfter).toBe(priceAt(PARAMS, SUPPLY + tokens));
+    // Linear curve: the average is the midpoint, 0.002 + 0.00005 ETH
+    expect(quote.averagePrice).toBe(BigInt(2050) * BigInt(1e12));
+    expect(quote.priceImpactBps).toBe(250);
+  });
+
+  it("prices a sell from the current spot down the curve", () => {
+    const tokens = BigInt(100) * WAD;
+    const eth = refundForBurn(PARAMS, SUPPLY, tokens);
+
+    const quote = quoteBreakdown(PARAMS, SUPPLY, "sell", tokens, eth)!;
+
+    expect(quote.spotAfter).toBe(priceAt(PARAMS, SUPPLY - tokens));
+    expect(quote.averagePrice < quote.spotBefore).toBe(true);
+    expect(quote.priceImpactBps).toBe(250);
+  });
+
+  it("returns null for empty trades and oversized sells", () => {
+    expect(quoteBreakdown(PARAMS, SUPPLY, "buy", BigInt(0), BigInt(0))).toBeNull();
+    expect(quoteBreakdown(PARAMS, SUPPLY, "sell", SUPPLY + BigInt(1), BigInt(1))).toBeNull();
+  });
+
+  it("reports no impact percentage at a zero spot price", () => {
+    const free = { initialPrice: BigInt(0), slope: BigInt(1e12) };
+    expect(quoteBreakdown(free, BigInt(0), "buy", WAD, BigInt(1))!.priceImpactBps).toBeNull();
+  });
+});
+
+describe("priceImpactLevel", () => {
+  it("escalates at each threshold", () => {
+    const { notice, warning, danger } = DEFAULT_PRICE_IMPACT_THRESHOLDS;
+
+    expect(priceImpactLevel(notice - 1)).toBe("none");
+    expect(priceImpactLevel(notice)).toBe("notice");
+    expect(priceImpactLevel(warning)).toBe("warning");
+    expect(priceImpactLevel(danger)).toBe("danger");
+    expect(priceImpactLevel(null)).toBe("warning");
+  });
+
+  it("honours custom thresholds", () => {
+    expect(priceImpactLevel(300, { notice: 50, warning: 200, danger: 1000 })).toBe("warning");
+  });
+
+  it("formats basis points as a percentage", () => {
+    expect(formatBps(250)).toBe("2.50%");
+  });
+});
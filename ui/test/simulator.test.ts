@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { WAD, costToMint, priceAt, refundForBurn, tokensForEth, type CurveParams } from "../lib/curve";
+import { curveBudget } from "../lib/fees";
+import { parseScript, simulateTrades, type SimStep } from "../lib/simulator";
+
+const PARAMS: CurveParams = { initialPrice: BigInt(1e15), slope: BigInt(1e12) };
+const SUPPLY = BigInt(1000) * WAD;
+const RESERVE = costToMint(PARAMS, BigInt(0), SUPPLY);
+
+const step = (actor: string, side: SimStep["side"], mode: SimStep["mode"], amount: bigint, line = 1): SimStep => ({
+  line,
+  actor,
+  side,
+  mode,
+  amount,
+});
+
+describe("parseScript", () => {
+  it("reads the mode from the unit", () => {
+    const { steps, errors } = parseScript("alice buy 2 ETH\nbob sell 500 NAT\ncarol BUY 10 tokens\ndave sell 0.5 eth", "NAT");
+
+    expect(errors).toEqual([]);
+    expect(steps.map(({ actor, side, mode }) => [actor, side, mode])).toEqual([
+      ["alice", "buy", "exactIn"],
+      ["bob", "sell", "exactIn"],
+      ["carol", "buy", "exactOut"],
+      ["dave", "sell", "exactOut"],
+    ]);
+    expect(steps[0].amount).toBe(BigInt(2) * WAD);
+    expect(steps[3].amount).toBe(WAD / BigInt(2));
+  });
+
+  it("skips blanks and comments and keeps line numbers", () => {
+    const { steps } = parseScript("# setup\n\nalice buy 1 ETH # first\n", "NAT");
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].line).toBe(3);
+  });
+
+  it("reports malformed lines without dropping the rest", () => {
+    const { steps, errors } = parseScript("alice buy\nbob buy 1 DOGE\ncarol buy -1 ETH\ndave buy 1 ETH", "NAT");
+
+    expect(errors.map((error) => error.line)).toEqual([1, 2, 3]);
+    expect(steps.map((s) => s.actor)).toEqual(["dave"]);
+  });
+});
+
+describe("simulateTrades", () => {
+  it("charges exact-in buys only for the tokens they get", () => {
+    const { results, finalSupply, finalReserve } = simulateTrades(
+      { params: PARAMS, supply: SUPPLY, reserve: RESERVE },
+      [step("alice", "buy", "exactIn", WAD)],
+    );
+    const tokens = tokensForEth(PARAMS, SUPPLY, WAD);
+    const cost = costToMint(PARAMS, SUPPLY, tokens);
+
+    expect(results[0].tokens).toBe(tokens);
+    expect(results[0].eth).toBe(cost);
+    expect(cost <= WAD).toBe(true);
+    expect(finalSupply).toBe(SUPPLY + tokens);
+    expect(finalReserve).toBe(RESERVE + cost);
+  });
+
+  it("sizes exact-in buys like buyWithEth, fees set aside first", () => {
+    // An odd slope, where a closed-form solve would round the wrong way
+    const params: CurveParams = { initialPrice: BigInt(1e15), slope: BigInt(1e12) + BigInt(1) };
+    const fees = { protocolFeeBps: BigInt(50), creatorFeeBps: BigInt(100) };
+    const { results } = simulateTrades({ params, supply: SUPPLY, reserve: RESERVE, fees }, [step("alice", "buy", "exactIn", WAD)]);
+    const budget = curveBudget(WAD, fees);
+
+    expect(results[0].tokens).toBe(tokensForEth(params, SUPPLY, budget));
+    expect(results[0].eth <= WAD).toBe(true);
+    expect(costToMint(params, SUPPLY, results[0].tokens + BigInt(1)) > budget).toBe(true);
+  });
+
+  it("chains steps and nets each actor's position", () => {
+    const bought = BigInt(100) * WAD;
+    const summary = simulateTrades({ params: PARAMS, supply: SUPPLY, reserve: RESERVE }, [
+      step("alice", "buy", "exactOut", bought, 1),
+      step("alice", "sell", "exactIn", bought, 2),
+    ]);
+    const cost = costToMint(PARAMS, SUPPLY, bought);
+    const refund = refundForBurn(PARAMS, SUPPLY + bought, bought);
+
+    expect(summary.results[1].supplyBefore).toBe(SUPPLY + bought);
+    expect(summary.finalSupply).toBe(SUPPLY);
+    expect(summary.finalPrice).toBe(priceAt(PARAMS, SUPPLY));
+    expect(summary.actors).toEqual([{ actor: "alice", tokens: BigInt(0), eth: refund - cost }]);
+    // A round trip never pays out more than it put in
+    expect(refund <= cost).toBe(true);
+  });
+
+  it("charges fees to the actor while the reserve only moves along the curve", () => {
+    const fees = { protocolFeeBps: BigInt(50), creatorFeeBps: BigInt(100) };
+    const bought = BigInt(100) * WAD;
+    const summary = simulateTrades({ params: PARAMS, supply: SUPPLY, reserve: RESERVE, fees }, [
+      step("alice", "buy", "exactOut", bought, 1),
+      step("alice", "sell", "exactIn", bought, 2),
+    ]);
+    const cost = costToMint(PARAMS, SUPPLY, bought);
+    const refund = refundForBurn(PARAMS, SUPPLY + bought, bought);
+    const [buy, sell] = summary.results;
+
+    expect(buy.curveEth).toBe(cost);
+    expect(buy.eth).toBe(cost + (cost * BigInt(50)) / BigInt(10000) + (cost * BigInt(100)) / BigInt(10000));
+    expect(sell.curveEth).toBe(refund);
+    expect(sell.eth < refund).toBe(true);
+    expect(summary.finalReserve).toBe(RESERVE + cost - refund);
+    expect(summary.actors[0].eth).toBe(sell.eth - buy.eth);
+  });
+
+  it("records rejected steps and carries on", () => {
+    const summary = simulateTrades({ params: PARAMS, supply: SUPPLY, reserve: BigInt(0) }, [
+      step("alice", "sell", "exactIn", SUPPLY + BigInt(1), 1),
+      step("bob", "sell", "exactIn", WAD, 2),
+      step("carol", "buy", "exactIn", WAD, 3),
+    ]);
+
+    expect(summary.results[0].error).toMatch(/more tokens than the current supply/);
+    expect(summary.results[1].error).toMatch(/insufficient ETH/);
+    expect(summary.results[1].supplyAfter).toBe(SUPPLY);
+    expect(summary.results[2].error).toBeUndefined();
+    expect(summary.actors.map((actor) => actor.actor)).toEqual(["carol"]);
+  });
+
+  it("stops buys at the cap, graduates and freezes burns as the contract does", () => {
+    const graduation = { maxSupply: SUPPLY + WAD, reserveTarget: BigInt(0), freezeBurns: true, graduated: false };
+    const summary = simulateTrades({ params: PARAMS, supply: SUPPLY, reserve: RESERVE, graduation }, [
+      step("alice", "buy", "exactOut", BigInt(2) * WAD, 1),
+      step("alice", "buy", "exactIn", BigInt(10) * WAD, 2),
+      step("bob", "buy", "exactIn", WAD, 3),
+      step("bob", "buy", "exactOut", WAD, 4),
+      step("alice", "sell", "exactIn", WAD, 5),
+    ]);
+
+    expect(summary.results[0].error).toBe("Exceeds max supply");
+    // Exact-in buys past the cap mint what's left and pay only for that
+    expect(summary.results[1].tokens).toBe(WAD);
+    expect(summary.results[1].eth).toBe(costToMint(PARAMS, SUPPLY, WAD));
+    expect(summary.finalSupply).toBe(graduation.maxSupply);
+    expect(summary.results[2].error).toBe("Nothing left to mint");
+    expect(summary.results[3].error).toBe("Curve has graduated");
+    expect(summary.results[4].error).toBe("Burns are frozen after graduation");
+    expect(graduation.graduated).toBe(false);
+  });
+
+  it("keeps selling after graduation when burns aren't frozen", () => {
+    const graduation = { maxSupply: SUPPLY, reserveTarget: BigInt(0), freezeBurns: false, graduated: true };
+    const summary = simulateTrades({ params: PARAMS, supply: SUPPLY, reserve: RESERVE, graduation }, [step("alice", "sell", "exactIn", WAD)]);
+
+    expect(summary.results[0].error).toBeUndefined();
+    expect(summary.finalSupply).toBe(SUPPLY - WAD);
+  });
+});
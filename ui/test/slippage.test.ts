@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { addSlippage, applySlippage } from "../lib/slippage";
+
+describe("slippage", () => {
+  it("lowers expected outputs and raises required inputs by the tolerance", () => {
+    expect(applySlippage(BigInt(10000), "1")).toBe(BigInt(9900));
+    expect(addSlippage(BigInt(10000), "1")).toBe(BigInt(10100));
+    expect(applySlippage(BigInt(10000), "0.25")).toBe(BigInt(9975));
+  });
+
+  it("rounds in the trader's favour of safety", () => {
+    // 1% of 999 is 9.99 wei: the minimum rounds down, the headroom rounds up
+    expect(applySlippage(BigInt(999), "1")).toBe(BigInt(989));
+    expect(addSlippage(BigInt(999), "1")).toBe(BigInt(1009));
+  });
+
+  it("clamps the tolerance to 0-100% and treats blanks as zero", () => {
+    expect(applySlippage(BigInt(500), "")).toBe(BigInt(500));
+    expect(applySlippage(BigInt(500), "-5")).toBe(BigInt(500));
+    expect(applySlippage(BigInt(500), "150")).toBe(BigInt(0));
+    expect(addSlippage(BigInt(500), "150")).toBe(BigInt(1000));
+  });
+});
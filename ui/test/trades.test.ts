@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress, type Address, type Hash } from "viem";
+import { WAD, costToMint, refundForBurn, type CurveParams } from "../lib/curve";
+import { buildTrades, type TransferLog } from "../lib/trades";
+
+const PARAMS: CurveParams = { initialPrice: BigInt(1e13), slope: BigInt(1e12) };
+const ALICE = "0x00000000000000000000000000000000000A11CE" as Address;
+const BOB = "0x0000000000000000000000000000000000000B0B" as Address;
+
+const log = (from: Address, to: Address, value: bigint, blockNumber: number, logIndex = 0): TransferLog => ({
+  from,
+  to,
+  value,
+  blockNumber: BigInt(blockNumber),
+  txHash: `0x${blockNumber.toString(16).padStart(64, "0")}` as Hash,
+  logIndex,
+});
+
+describe("buildTrades", () => {
+  it("classifies mints as buys and burns as sells, replaying supply", () => {
+    const logs = [
+      log(zeroAddress, ALICE, BigInt(100) * WAD, 1),
+      log(zeroAddress, BOB, BigInt(50) * WAD, 2),
+      log(ALICE, zeroAddress, BigInt(30) * WAD, 3),
+    ];
+    const timestamps = new Map([[BigInt(1), 1000], [BigInt(2), 1012]]);
+
+    const { trades, supply } = buildTrades(logs, PARAMS, BigInt(0), timestamps);
+
+    expect(trades.map((t) => [t.kind, t.trader])).toEqual([["buy", ALICE], ["buy", BOB], ["sell", ALICE]]);
+    expect(supply).toBe(BigInt(120) * WAD);
+    expect(trades[0].eth).toBe(costToMint(PARAMS, BigInt(0), BigInt(100) * WAD));
+    expect(trades[1].eth).toBe(costToMint(PARAMS, BigInt(100) * WAD, BigInt(50) * WAD));
+    expect(trades[2].eth).toBe(refundForBurn(PARAMS, BigInt(150) * WAD, BigInt(30) * WAD));
+    expect(trades[1].timestamp).toBe(1012);
+    expect(trades[2].timestamp).toBe(0);
+  });
+
+  it("ignores wallet-to-wallet transfers", () => {
+    const logs = [
+      log(zeroAddress, ALICE, BigInt(10) * WAD, 1),
+      log(ALICE, BOB, BigInt(5) * WAD, 2),
+      log(BOB, zeroAddress, BigInt(5) * WAD, 3),
+    ];
+
+    const { trades, supply } = buildTrades(logs, PARAMS, BigInt(0), new Map());
+
+    expect(trades).toHaveLength(2);
+    expect(trades[1].trader).toBe(BOB);
+    expect(supply).toBe(BigInt(5) * WAD);
+  });
+
+  it("continues from a cached supply", () => {
+    const start = BigInt(1000) * WAD;
+    const { trades } = buildTrades([log(zeroAddress, ALICE, WAD, 7)], PARAMS, start, new Map());
+
+    expect(trades[0].eth).toBe(costToMint(PARAMS, start, WAD));
+    expect(trades[0].price).toBe(trades[0].eth);
+    expect(trades[0].supplyAfter).toBe(start + WAD);
+  });
+
+  it("adds fees to buys and takes them out of sells", () => {
+    const fees = { protocolFeeBps: BigInt(50), creatorFeeBps: BigInt(100) };
+    const logs = [log(zeroAddress, ALICE, BigInt(100) * WAD, 1), log(ALICE, zeroAddress, BigInt(40) * WAD, 2)];
+
+    const { trades } = buildTrades(logs, PARAMS, BigInt(0), new Map(), fees);
+
+    const cost = costToMint(PARAMS, BigInt(0), BigInt(100) * WAD);
+    const refund = refundForBurn(PARAMS, BigInt(100) * WAD, BigInt(40) * WAD);
+    expect(trades[0].eth).toBe(cost + (cost * BigInt(50)) / BigInt(10000) + (cost * BigInt(100)) / BigInt(10000));
+    expect(trades[1].eth).toBe(refund - (refund * BigInt(50)) / BigInt(10000) - (refund * BigInt(100)) / BigInt(10000));
+    // Prices stay on the curve
+    expect(trades[0].price).toBe((cost * WAD) / (BigInt(100) * WAD));
+  });
+});
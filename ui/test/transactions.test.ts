@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { WaitForTransactionReceiptTimeoutError, type Address, type Hash } from "viem";
+import { MAX_WATCH_ERRORS, explorerTxUrl, watchTransaction, type ReceiptClient, type TrackedTransaction } from "../lib/transactions";
+
+const HASH = `0x${"1".padStart(64, "0")}` as Hash;
+const REPLACEMENT = `0x${"2".padStart(64, "0")}` as Hash;
+
+const TX: TrackedTransaction = {
+  hash: HASH,
+  chainId: 31337,
+  account: "0x00000000000000000000000000000000000A11CE" as Address,
+  description: "Buy",
+  status: "pending",
+  submittedAt: 0,
+  updatedAt: 0,
+};
+
+type WaitArgs = { onReplaced?: (replacement: { reason: string; transaction: { hash: Hash } }) => void };
+
+// Only the two client methods watchTransaction uses
+const fakeClient = (
+  waitForTransactionReceipt: (args: WaitArgs) => Promise<{ status: "success" | "reverted" }>,
+  getTransaction: () => Promise<unknown> = () => Promise.resolve({}),
+) => ({ waitForTransactionReceipt, getTransaction }) as unknown as ReceiptClient;
+
+describe("watchTransaction", () => {
+  it("reports confirmed and failed receipts", async () => {
+    const ok = await watchTransaction(fakeClient(async () => ({ status: "success" })), TX);
+    const reverted = await watchTransaction(fakeClient(async () => ({ status: "reverted" })), TX);
+
+    expect(ok.status).toBe("confirmed");
+    expect(reverted.status).toBe("failed");
+  });
+
+  it("follows a repriced transaction but marks a cancelled one as replaced", async () => {
+    const replacedWith = (reason: string) =>
+      fakeClient(async ({ onReplaced }) => {
+        onReplaced?.({ reason, transaction: { hash: REPLACEMENT } });
+        return { status: "success" };
+      });
+
+    const repriced = await watchTransaction(replacedWith("repriced"), TX);
+    const cancelled = await watchTransaction(replacedWith("cancelled"), TX);
+
+    expect(repriced).toMatchObject({ status: "confirmed", replacedBy: REPLACEMENT });
+    expect(cancelled).toMatchObject({ status: "replaced", replacedBy: REPLACEMENT });
+  });
+
+  it("keeps waiting after a timeout while the node still knows the transaction", async () => {
+    let calls = 0;
+    const client = fakeClient(async () => {
+      calls += 1;
+      if (calls === 1) throw new WaitForTransactionReceiptTimeoutError({ hash: HASH });
+      return { status: "success" };
+    });
+
+    expect((await watchTransaction(client, TX)).status).toBe("confirmed");
+    expect(calls).toBe(2);
+  });
+
+  it("marks a transaction the node has forgotten as dropped", async () => {
+    const client = fakeClient(
+      async () => {
+        throw new WaitForTransactionReceiptTimeoutError({ hash: HASH });
+      },
+      () => Promise.reject(new Error("not found")),
+    );
+
+    expect((await watchTransaction(client, TX)).status).toBe("dropped");
+  });
+
+  it("retries other errors, then marks the transaction failed instead of leaving it pending", async () => {
+    let calls = 0;
+    const flaky = fakeClient(async () => {
+      calls += 1;
+      if (calls === 1) throw new Error("fetch failed");
+      return { status: "success" };
+    });
+    expect((await watchTransaction(flaky, TX, 0)).status).toBe("confirmed");
+
+    calls = 0;
+    const broken = fakeClient(async () => {
+      calls += 1;
+      throw new Error("fetch failed");
+    });
+    expect((await watchTransaction(broken, TX, 0)).status).toBe("failed");
+    expect(calls).toBe(MAX_WATCH_ERRORS);
+  });
+});
+
+describe("explorerTxUrl", () => {
+  it("joins the explorer base and hash, tolerating a trailing slash", () => {
+    expect(explorerTxUrl("https://sepolia.etherscan.io/", HASH)).toBe(`https://sepolia.etherscan.io/tx/${HASH}`);
+    expect(explorerTxUrl(undefined, HASH)).toBeUndefined();
+  });
+});
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests only; the Anvil-backed hook tests run through vitest.integration.config.ts
+export default defineConfig({
+  test: {
+    include: ["test/*.test.ts"],
+  },
+});
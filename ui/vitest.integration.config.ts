@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import { anvil } from "viem/chains";
+
+// Hook tests against a fresh Anvil node (see test/integration/globalSetup.ts). Needs Foundry, not network access.
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["test/integration/**/*.test.tsx"],
+    environment: "jsdom",
+    globalSetup: ["test/integration/globalSetup.ts"],
+    setupFiles: ["test/integration/setup.ts"],
+    env: { NEXT_PUBLIC_DEFAULT_CHAIN_ID: String(anvil.id) },
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 180000,
+  },
+});